@@ -0,0 +1,109 @@
+/**
+ * Avatar Catalog - List and inspect the LiveAvatar avatars this account can use
+ *
+ * Reads the same cached catalog (private + public avatars) that agents pick
+ * their avatar from (shared/liveavatar/catalog.ts), so what this shows is
+ * what LIVE_AVATAR_ID / dispatch metadata resolve against.
+ *
+ * Usage:
+ *   npm run debug:avatars                          # table of every avatar
+ *   npm run debug:avatars -- --json                # same, as JSON
+ *   npm run debug:avatars -- show "Mock*"          # details for an ID, name or pattern
+ *   npm run debug:avatars -- --refresh             # refetch instead of using the cache
+ */
+
+import 'dotenv/config';
+import { closeAvatarMatches, matchAvatars } from '../../shared/liveavatar/avatars.js';
+import { catalogCacheDir, loadAvatarCatalog, type AvatarCatalog, type CatalogAvatar } from '../../shared/liveavatar/catalog.js';
+import { AvatarNotFoundError } from '../../shared/liveavatar/errors.js';
+
+const CONFIG = {
+  LIVE_AVATAR_API_KEY: process.env.LIVE_AVATAR_API_KEY!,
+};
+
+const USAGE = 'Usage: npm run debug:avatars -- [list | show <id|name|pattern>] [--json] [--refresh]';
+
+// ============================================================================
+// OUTPUT
+// ============================================================================
+
+function printTable(avatars: CatalogAvatar[]): void {
+  const rows = [
+    ['ID', 'NAME', 'STATUS', 'SOURCE', 'PREVIEW'],
+    ...avatars.map((a) => [a.id, a.name, a.status, a.source, a.preview_url ?? '-']),
+  ];
+  const widths = rows[0].map((_, i) => Math.max(...rows.map((row) => row[i].length)));
+  for (const row of rows) {
+    console.log(row.map((cell, i) => cell.padEnd(widths[i])).join('  ').trimEnd());
+  }
+}
+
+function printDetails(avatar: CatalogAvatar): void {
+  const mark = avatar.status === 'ACTIVE' ? '🟢' : '⚪';
+  console.log(`${mark} ${avatar.name}`);
+  for (const [key, value] of Object.entries(avatar)) {
+    if (key !== 'name') console.log(`   ${key.padEnd(14)} ${typeof value === 'string' ? value : JSON.stringify(value)}`);
+  }
+  console.log();
+}
+
+function describeCache({ fromCache, fetchedAt }: AvatarCatalog): string {
+  if (!fromCache) return 'fetched just now';
+  const minutes = Math.round((Date.now() - fetchedAt.getTime()) / 60_000);
+  return `cached ${minutes}m ago in ${catalogCacheDir()} - --refresh to refetch`;
+}
+
+// ============================================================================
+// MAIN
+// ============================================================================
+
+async function main() {
+  const args = process.argv.slice(2);
+  const json = args.includes('--json');
+  const refresh = args.includes('--refresh');
+  const [command = 'list', query] = args.filter((arg) => !arg.startsWith('--'));
+
+  if (!CONFIG.LIVE_AVATAR_API_KEY) {
+    console.error('❌ Missing environment variables: LIVE_AVATAR_API_KEY');
+    process.exit(1);
+  }
+  if ((command !== 'list' && command !== 'show') || (command === 'show' && !query)) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  const catalog = await loadAvatarCatalog({ refresh });
+
+  if (command === 'list') {
+    if (json) {
+      console.log(JSON.stringify(catalog.avatars, null, 2));
+      return;
+    }
+    const active = catalog.avatars.filter((a) => a.status === 'ACTIVE').length;
+    console.log(`\n=== LiveAvatar Avatars (${catalog.avatars.length}, ${active} ACTIVE) ===\n`);
+    printTable(catalog.avatars);
+    console.log(`\n📒 ${describeCache(catalog)}\n`);
+    return;
+  }
+
+  const matches = matchAvatars(catalog.avatars, query);
+  if (matches.length === 0) {
+    throw new AvatarNotFoundError(query, closeAvatarMatches(catalog.avatars, query));
+  }
+  if (json) {
+    console.log(JSON.stringify(matches, null, 2));
+    return;
+  }
+  console.log(`\n=== "${query}" - ${matches.length} match${matches.length === 1 ? '' : 'es'} ===\n`);
+  matches.forEach(printDetails);
+  console.log(`📒 ${describeCache(catalog)}\n`);
+}
+
+main().catch((error) => {
+  if (error instanceof AvatarNotFoundError) {
+    console.error(`❌ ${error.message}`);
+    process.exit(1);
+  }
+  console.error('Fatal error:', error);
+  process.exit(1);
+});
@@ -0,0 +1,114 @@
+/**
+ * Chunker Benchmark - number[] buffering vs PcmChunker
+ *
+ * Feeds the same synthetic TTS stream through the old ttsNode buffering
+ * (Array.from → push(...) → splice → new Int16Array) and through
+ * PcmChunker, for a few frame sizes and chunk durations.
+ *
+ * Usage: npm run debug:bench-chunker [-- seconds]
+ */
+
+import { PcmChunker } from '../../shared/audio/chunker.js';
+
+const SAMPLE_RATE = 24000;
+const SECONDS = Number(process.argv[2]) || 120;
+const FRAME_SIZES = [240, 480, 2400];  // 10ms, 20ms, 100ms frames
+const CHUNK_MS = [20, 40, 100];
+
+// ============================================================================
+// THE TWO APPROACHES
+// ============================================================================
+
+// What the ttsNode overrides used to do, minus the WebSocket send
+function legacyChunking(frames: Int16Array[], chunkSamples: number): number {
+  let audioBuffer: number[] = [];
+  let emitted = 0;
+
+  for (const frame of frames) {
+    const samples = Array.from(new Int16Array(frame));
+    audioBuffer.push(...samples);
+    while (audioBuffer.length >= chunkSamples) {
+      emitted += new Int16Array(audioBuffer.splice(0, chunkSamples)).length;
+    }
+  }
+  if (audioBuffer.length > 0) emitted += new Int16Array(audioBuffer).length;
+  return emitted;
+}
+
+function ringChunking(frames: Int16Array[], chunkMs: number): number {
+  const chunker = new PcmChunker(SAMPLE_RATE, chunkMs);
+  let emitted = 0;
+
+  for (const frame of frames) {
+    for (const chunk of chunker.push(frame)) emitted += chunk.length;
+  }
+  emitted += chunker.flush()?.length ?? 0;
+  return emitted;
+}
+
+// ============================================================================
+// HARNESS
+// ============================================================================
+
+/** `samples` of a 220Hz tone, starting `offset` samples into it */
+function makeFrame(offset: number, samples: number): Int16Array {
+  const frame = new Int16Array(samples);
+  for (let i = 0; i < frame.length; i++) {
+    frame[i] = Math.round(8000 * Math.sin((2 * Math.PI * 220 * (offset + i)) / SAMPLE_RATE));
+  }
+  return frame;
+}
+
+function makeFrames(frameSize: number): Int16Array[] {
+  const total = SAMPLE_RATE * SECONDS;
+  const frames: Int16Array[] = [];
+  for (let offset = 0; offset < total; offset += frameSize) {
+    frames.push(makeFrame(offset, Math.min(frameSize, total - offset)));
+  }
+  return frames;
+}
+
+function time(run: () => number): { ms: number; samples: number } {
+  run();  // Warm up the JIT
+  const start = performance.now();
+  const samples = run();
+  return { ms: performance.now() - start, samples };
+}
+
+const realtime = (ms: number) => `${((SECONDS * 1000) / ms).toFixed(0)}x`;
+
+console.log(`🏁 Chunking ${SECONDS}s of 24kHz audio per run\n`);
+console.log('frame  chunk   number[] (ms, realtime)   PcmChunker (ms, realtime)   speedup');
+
+for (const frameSize of FRAME_SIZES) {
+  const frames = makeFrames(frameSize);
+  for (const chunkMs of CHUNK_MS) {
+    const chunkSamples = (SAMPLE_RATE * chunkMs) / 1000;
+    const legacy = time(() => legacyChunking(frames, chunkSamples));
+    const ring = time(() => ringChunking(frames, chunkMs));
+
+    if (legacy.samples !== ring.samples) {
+      throw new Error(`Sample count mismatch: ${legacy.samples} vs ${ring.samples}`);
+    }
+
+    console.log(
+      `${String(frameSize).padStart(5)}  ${String(chunkMs).padStart(3)}ms  ` +
+      `${legacy.ms.toFixed(1).padStart(10)}  ${realtime(legacy.ms).padStart(10)}      ` +
+      `${ring.ms.toFixed(1).padStart(10)}  ${realtime(ring.ms).padStart(10)}      ` +
+      `${(legacy.ms / ring.ms).toFixed(1)}x`,
+    );
+  }
+}
+
+// A single large frame (e.g. a TTS plugin that returns a whole sentence) -
+// always 10s, whatever SECONDS is. Where push(...samples) runs out of stack
+// depends on the V8 stack size; Node 20 fails between 120k and 240k samples.
+const bigFrame = [makeFrame(0, SAMPLE_RATE * 10)];
+console.log(`\n📦 One 10s frame (${bigFrame[0].length.toLocaleString('en-US')} samples):`);
+try {
+  legacyChunking(bigFrame, 2400);
+  console.log('  number[]:   ok');
+} catch (error) {
+  console.log(`  number[]:   ❌ ${(error as Error).message}`);
+}
+console.log(`  PcmChunker: ✅ ${ringChunking(bigFrame, 100)} samples`);
@@ -0,0 +1,106 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import WebSocket from 'ws';
+import { LiveAvatarSpeechScheduler, type Utterance } from '../../shared/liveavatar/speech-scheduler.js';
+import { startMockLiveAvatarServer, type MockLiveAvatarServer, type MockSession } from './server.js';
+
+const CHUNK_SAMPLES = 2400;  // 100ms at 24kHz
+
+let mock: MockLiveAvatarServer;
+
+before(async () => {
+  mock = await startMockLiveAvatarServer({ port: 0, quiet: true });
+});
+
+after(() => mock.close());
+
+/** Token + start over REST, then a scheduler talking to the session's WebSocket */
+async function connect(): Promise<{ session: MockSession; speech: LiveAvatarSpeechScheduler; ws: WebSocket }> {
+  const post = (path: string, headers: Record<string, string>, body?: object) =>
+    fetch(`${mock.url}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: body && JSON.stringify(body),
+    }).then((res) => res.json());
+
+  const token = await post('/v1/sessions/token', { 'X-API-KEY': 'test' }, { mode: 'FULL', avatar_id: 'mock-avatar-active' });
+  const started = await post('/v1/sessions/start', { Authorization: `Bearer ${token.data.session_token}` });
+
+  const ws = new WebSocket(started.data.ws_url);
+  await new Promise((resolve, reject) => ws.once('open', resolve).once('error', reject));
+
+  const speech = new LiveAvatarSpeechScheduler((message) => ws.send(JSON.stringify(message)), { drainGraceMs: 500 });
+  ws.on('message', (data) => speech.handleServerEvent(JSON.parse(data.toString())));
+  return { session: mock.sessions.get(token.data.session_id)!, speech, ws };
+}
+
+/** Resolves when the mock sends this event */
+function serverEvent(ws: WebSocket, type: string, eventId: string): Promise<void> {
+  return new Promise((resolve) => {
+    const onMessage = (data: WebSocket.RawData) => {
+      const message = JSON.parse(data.toString());
+      if (message.type !== type || message.event_id !== eventId) return;
+      ws.off('message', onMessage);
+      resolve();
+    };
+    ws.on('message', onMessage);
+  });
+}
+
+function say(utterance: Utterance, chunks: number): void {
+  for (let i = 0; i < chunks; i++) utterance.push(new Int16Array(CHUNK_SAMPLES));
+  utterance.end();
+}
+
+/** Message types for one event_id, repeated agent.speak collapsed into one */
+function sequence(messages: MockSession['received'], eventId: string): string[] {
+  return messages
+    .filter((m) => m.event_id === eventId)
+    .map((m) => m.type)
+    .filter((type, i, types) => type !== 'agent.speak' || types[i - 1] !== 'agent.speak');
+}
+
+describe('mock LiveAvatar server', () => {
+  it('plays queued utterances one event_id at a time under pacing', async () => {
+    const { session, speech, ws } = await connect();
+
+    // Both TTS streams produce audio at once - the scheduler must not interleave them
+    const first = speech.createUtterance();
+    const second = speech.createUtterance();
+    say(second, 3);
+    say(first, 5);
+    await speech.waitForIdle();
+    ws.close();
+
+    assert.equal(session.talkOver, 0);
+    for (const utterance of [first, second]) {
+      assert.deepEqual(sequence(session.received, utterance.eventId), ['agent.speak_started', 'agent.speak', 'agent.speak_end']);
+      assert.deepEqual(sequence(session.emitted, utterance.eventId), ['agent.speak_started', 'agent.speak_ended']);
+    }
+
+    const order = session.received.map((m) => m.event_id);
+    assert.ok(order.lastIndexOf(first.eventId) < order.indexOf(second.eventId), 'second waits for speak_end of first');
+    const audioMs = session.received.filter((m) => m.type === 'agent.speak').reduce((sum, m) => sum + m.audioMs!, 0);
+    assert.equal(Math.round(audioMs), 800);
+  });
+
+  it('ends the active event_id on agent.interrupt and gets no audio after it', async () => {
+    const { session, speech, ws } = await connect();
+
+    const utterance = speech.createUtterance();
+    say(utterance, 20);
+    await new Promise((resolve) => setTimeout(resolve, 400));
+    const ended = serverEvent(ws, 'agent.speak_ended', utterance.eventId);
+    speech.interrupt();
+    await ended;
+    ws.close();
+
+    assert.equal(session.talkOver, 0);
+    assert.deepEqual(sequence(session.received, utterance.eventId), ['agent.speak_started', 'agent.speak', 'agent.interrupt']);
+    assert.deepEqual(sequence(session.emitted, utterance.eventId), ['agent.speak_started', 'agent.speak_ended']);
+
+    // Paced: only part of the 2s was sent before the interrupt
+    const sentMs = session.received.filter((m) => m.type === 'agent.speak').reduce((sum, m) => sum + m.audioMs!, 0);
+    assert.ok(sentMs < 2000, `sent ${sentMs}ms of 2000ms`);
+  });
+});
@@ -0,0 +1,373 @@
+/**
+ * Mock LiveAvatar Server - Offline stand-in for api.liveavatar.com
+ *
+ * Implements the REST endpoints our agents call plus the avatar WebSocket:
+ * - GET  /v1/avatars/public
+ * - GET  /v1/avatars          (the account's private avatars)
+ * - POST /v1/sessions/token
+ * - POST /v1/sessions/start   → returns a local ws_url
+ * - POST /v1/sessions/stop
+ *
+ * On the WebSocket it plays back `agent.speak` audio on a virtual clock
+ * (24kHz, 16-bit mono PCM) and emits `agent.speak_started`,
+ * `agent.speak_ended`, `agent.idle_started` and `agent.idle_ended` at the
+ * pace a real avatar would. Nothing is rendered - no LiveKit room is joined.
+ *
+ * Usage:
+ *   npm run debug:mock-liveavatar
+ *   LIVE_AVATAR_API_URL=http://localhost:8890 npm run wip:custom-agent
+ *
+ * Or import startMockLiveAvatarServer() from an end-to-end test.
+ */
+
+import express, { type Request, type Response } from 'express';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { fileURLToPath } from 'url';
+import crypto from 'crypto';
+import WebSocket, { WebSocketServer } from 'ws';
+import type { CreateSessionTokenRequest, LiveAvatar } from '../../shared/liveavatar/types.js';
+
+const SAMPLE_RATE = 24000;
+const BYTES_PER_SAMPLE = 2;
+
+export const MOCK_AVATARS: LiveAvatar[] = [
+  { id: 'mock-avatar-active', name: 'Mock Avatar', status: 'ACTIVE', preview_url: 'https://example.invalid/mock-avatar.png' },
+  { id: 'mock-avatar-inactive', name: 'Retired Mock Avatar', status: 'INACTIVE' },
+];
+
+export const MOCK_PRIVATE_AVATARS: LiveAvatar[] = [
+  { id: 'mock-avatar-private', name: 'Private Mock Avatar', status: 'ACTIVE' },
+];
+
+export interface MockLiveAvatarOptions {
+  port?: number;              // 0 picks a free port
+  host?: string;
+  apiKey?: string;            // If set, X-API-KEY must match; otherwise any non-empty key works
+  avatars?: LiveAvatar[];
+  privateAvatars?: LiveAvatar[];
+  quiet?: boolean;
+}
+
+export interface MockMessage {
+  at: number;                 // ms since the session started
+  type: string;
+  event_id?: string;
+  audioMs?: number;
+}
+
+export interface MockSession {
+  sessionId: string;
+  sessionToken: string;
+  request: CreateSessionTokenRequest;
+  state: 'CREATED' | 'STARTED' | 'STOPPED';
+  stopReason?: string;
+  createdAt: number;
+  received: MockMessage[];    // Client → avatar
+  emitted: MockMessage[];     // Avatar → client
+  talkOver: number;           // Audio for a new event_id before the previous one sent speak_end
+  ws?: WebSocket;
+  playback?: PlaybackClock;
+}
+
+export interface MockLiveAvatarServer {
+  url: string;                // Use as LIVE_AVATAR_API_URL
+  port: number;
+  sessions: Map<string, MockSession>;
+  close(): Promise<void>;
+}
+
+/**
+ * Virtual playback clock for one avatar connection.
+ *
+ * Each audio chunk is appended at the playhead, so events fire as if the
+ * avatar spoke every chunk in real time, in the order it was received.
+ */
+class PlaybackClock {
+  private playheadAt = 0;
+  private speaking = false;
+  private started = new Set<string>();
+  private closed = new Set<string>();  // speak_end received
+  private ended = new Set<string>();   // speak_ended emitted
+  private lastAudioEndsAt = new Map<string, number>();
+  private timers = new Set<NodeJS.Timeout>();
+
+  constructor(
+    private session: MockSession,
+    private emit: (type: string, eventId?: string) => void,
+  ) {}
+
+  speak(eventId: string, audioMs: number): void {
+    const now = Date.now();
+
+    const open = [...this.started].find((id) => !this.closed.has(id) && id !== eventId);
+    if (open && !this.started.has(eventId)) {
+      this.session.talkOver++;
+    }
+
+    const startAt = Math.max(now, this.playheadAt);
+    this.playheadAt = startAt + audioMs;
+    this.lastAudioEndsAt.set(eventId, this.playheadAt);
+
+    if (!this.started.has(eventId)) {
+      this.started.add(eventId);
+      this.at(startAt, () => {
+        if (!this.speaking) {
+          this.speaking = true;
+          this.emit('agent.idle_ended');
+        }
+        this.emit('agent.speak_started', eventId);
+      });
+    }
+  }
+
+  speakEnd(eventId: string): void {
+    if (!this.started.has(eventId)) return;
+    this.closed.add(eventId);
+
+    const endAt = this.lastAudioEndsAt.get(eventId) ?? Date.now();
+    this.at(endAt, () => this.finish(eventId));
+  }
+
+  interrupt(): void {
+    for (const timer of this.timers) clearTimeout(timer);
+    this.timers.clear();
+    this.playheadAt = 0;
+
+    for (const eventId of this.started) {
+      this.closed.add(eventId);
+      if (!this.ended.has(eventId)) this.finish(eventId);
+    }
+    this.goIdle();
+  }
+
+  dispose(): void {
+    for (const timer of this.timers) clearTimeout(timer);
+    this.timers.clear();
+  }
+
+  private finish(eventId: string): void {
+    if (this.ended.has(eventId)) return;
+    this.ended.add(eventId);
+    this.emit('agent.speak_ended', eventId);
+
+    if (Date.now() >= this.playheadAt) {
+      this.goIdle();
+    }
+  }
+
+  private goIdle(): void {
+    if (!this.speaking) return;
+    this.speaking = false;
+    this.emit('agent.idle_started');
+  }
+
+  private at(when: number, fn: () => void): void {
+    const timer = setTimeout(() => {
+      this.timers.delete(timer);
+      fn();
+    }, Math.max(0, when - Date.now()));
+    this.timers.add(timer);
+  }
+}
+
+export async function startMockLiveAvatarServer(
+  options: MockLiveAvatarOptions = {},
+): Promise<MockLiveAvatarServer> {
+  const host = options.host ?? '127.0.0.1';
+  const avatars = options.avatars ?? MOCK_AVATARS;
+  const privateAvatars = options.privateAvatars ?? MOCK_PRIVATE_AVATARS;
+  const sessions = new Map<string, MockSession>();
+  const byToken = new Map<string, MockSession>();
+  const log = (...args: unknown[]) => {
+    if (!options.quiet) console.log(...args);
+  };
+
+  const app = express();
+  app.use(express.json({ limit: '1mb' }));
+
+  const fail = (res: Response, status: number, message: string) => {
+    res.status(status).json({ code: status, message, data: null });
+  };
+
+  const requireApiKey = (req: Request, res: Response): boolean => {
+    const key = req.header('X-API-KEY');
+    if (!key || (options.apiKey && key !== options.apiKey)) {
+      fail(res, 401, 'Invalid API key');
+      return false;
+    }
+    return true;
+  };
+
+  app.get('/v1/avatars/public', (req, res) => {
+    if (!requireApiKey(req, res)) return;
+    res.json({ code: 1000, data: { count: avatars.length, next: null, results: avatars } });
+  });
+
+  app.get('/v1/avatars', (req, res) => {
+    if (!requireApiKey(req, res)) return;
+    res.json({ code: 1000, data: { count: privateAvatars.length, next: null, results: privateAvatars } });
+  });
+
+  app.post('/v1/sessions/token', (req, res) => {
+    if (!requireApiKey(req, res)) return;
+
+    const body = req.body as Partial<CreateSessionTokenRequest> | undefined;
+    if (!body?.avatar_id || !body.mode) {
+      return fail(res, 400, 'mode and avatar_id are required');
+    }
+    const avatar = [...avatars, ...privateAvatars].find((a) => a.id === body.avatar_id);
+    if (!avatar) return fail(res, 404, `Avatar ${body.avatar_id} not found`);
+    if (avatar.status !== 'ACTIVE') return fail(res, 400, `Avatar ${body.avatar_id} is ${avatar.status}`);
+    if (body.mode === 'CUSTOM' && !body.livekit_config?.livekit_client_token) {
+      return fail(res, 400, 'livekit_config is required in CUSTOM mode');
+    }
+
+    const session: MockSession = {
+      sessionId: crypto.randomUUID(),
+      sessionToken: crypto.randomBytes(24).toString('hex'),
+      request: body as CreateSessionTokenRequest,
+      state: 'CREATED',
+      createdAt: Date.now(),
+      received: [],
+      emitted: [],
+      talkOver: 0,
+    };
+    sessions.set(session.sessionId, session);
+    byToken.set(session.sessionToken, session);
+
+    log(`🎫 [mock] Session created: ${session.sessionId} (avatar ${avatar.id})`);
+    res.json({ code: 1000, data: { session_id: session.sessionId, session_token: session.sessionToken } });
+  });
+
+  app.post('/v1/sessions/start', (req, res) => {
+    const token = req.header('Authorization')?.replace(/^Bearer\s+/i, '');
+    const session = token ? byToken.get(token) : undefined;
+    if (!session) return fail(res, 401, 'Invalid session token');
+    if (session.state === 'STOPPED') return fail(res, 400, 'Session already stopped');
+
+    session.state = 'STARTED';
+    const wsUrl = `ws://${host}:${port}/v1/ws/${session.sessionId}`;
+
+    log(`🚀 [mock] Session started: ${session.sessionId}`);
+    res.json({ code: 1000, data: { session_id: session.sessionId, ws_url: wsUrl } });
+  });
+
+  app.post('/v1/sessions/stop', (req, res) => {
+    if (!requireApiKey(req, res)) return;
+
+    const session = sessions.get(req.body?.session_id);
+    if (!session) return fail(res, 404, 'Session not found');
+
+    session.state = 'STOPPED';
+    session.stopReason = req.body?.reason;
+    session.playback?.dispose();
+    session.ws?.close(1000, 'session stopped');
+
+    log(`🛑 [mock] Session stopped: ${session.sessionId} (${session.stopReason})`);
+    res.json({ code: 1000, data: null });
+  });
+
+  const server: Server = createServer(app);
+  const wss = new WebSocketServer({ noServer: true });
+
+  server.on('upgrade', (req, socket, head) => {
+    const match = req.url?.match(/^\/v1\/ws\/([^/?]+)/);
+    const session = match ? sessions.get(match[1]) : undefined;
+    if (!session || session.state !== 'STARTED') {
+      socket.write('HTTP/1.1 404 Not Found\r\n\r\n');
+      socket.destroy();
+      return;
+    }
+    wss.handleUpgrade(req, socket, head, (ws) => attach(session, ws));
+  });
+
+  function attach(session: MockSession, ws: WebSocket): void {
+    session.ws?.close(1000, 'replaced by new connection');
+    session.playback?.dispose();
+    session.ws = ws;
+
+    const at = () => Date.now() - session.createdAt;
+    const emit = (type: string, eventId?: string) => {
+      session.emitted.push({ at: at(), type, event_id: eventId });
+      if (ws.readyState === WebSocket.OPEN) {
+        ws.send(JSON.stringify(eventId ? { type, event_id: eventId } : { type }));
+      }
+    };
+    const playback = new PlaybackClock(session, emit);
+    session.playback = playback;
+
+    log(`🔌 [mock] WebSocket connected: ${session.sessionId}`);
+
+    ws.on('message', (raw) => {
+      let message: { type?: string; event_id?: string; audio?: string };
+      try {
+        message = JSON.parse(raw.toString());
+      } catch {
+        emit('error');
+        return;
+      }
+
+      const type = message.type ?? 'unknown';
+      const eventId = message.event_id;
+
+      switch (type) {
+        case 'agent.speak': {
+          const bytes = Buffer.from(message.audio ?? '', 'base64').length;
+          const audioMs = (bytes / BYTES_PER_SAMPLE / SAMPLE_RATE) * 1000;
+          session.received.push({ at: at(), type, event_id: eventId, audioMs });
+          if (eventId) playback.speak(eventId, audioMs);
+          break;
+        }
+        case 'agent.speak_end':
+          session.received.push({ at: at(), type, event_id: eventId });
+          if (eventId) playback.speakEnd(eventId);
+          break;
+        case 'agent.interrupt':
+          session.received.push({ at: at(), type, event_id: eventId });
+          playback.interrupt();
+          break;
+        default:
+          session.received.push({ at: at(), type, event_id: eventId });
+      }
+    });
+
+    ws.on('close', () => {
+      if (session.ws === ws) {
+        playback.dispose();
+        session.ws = undefined;
+      }
+      log(`🔌 [mock] WebSocket closed: ${session.sessionId}`);
+    });
+
+    // A freshly started avatar is idle
+    emit('agent.idle_started');
+  }
+
+  await new Promise<void>((resolve) => server.listen(options.port ?? 8890, host, resolve));
+  const port = (server.address() as AddressInfo).port;
+
+  return {
+    url: `http://${host}:${port}`,
+    port,
+    sessions,
+    close: () =>
+      new Promise<void>((resolve) => {
+        for (const session of sessions.values()) {
+          session.playback?.dispose();
+          session.ws?.terminate();
+        }
+        wss.close();
+        server.close(() => resolve());
+      }),
+  };
+}
+
+// Run standalone: tsx debug/mock-liveavatar/server.ts
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+  const port = Number(process.env.MOCK_LIVE_AVATAR_PORT ?? 8890);
+  startMockLiveAvatarServer({ port }).then((mock) => {
+    console.log(`🎭 Mock LiveAvatar listening on ${mock.url}`);
+    console.log(`   Point agents at it with LIVE_AVATAR_API_URL=${mock.url}`);
+  });
+}
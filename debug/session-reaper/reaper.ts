@@ -0,0 +1,132 @@
+/**
+ * Session Reaper - Stop LiveAvatar sessions their agent left behind
+ *
+ * Every session startLiveAvatarSession() starts goes into the session
+ * ledger (shared/liveavatar/ledger.ts) until it is stopped. A crashed agent
+ * never stops its session, so the avatar keeps running (and billing). This
+ * checks each recorded session's LiveKit room and stops the session if:
+ * - the room no longer exists, or
+ * - nobody human is left in it (only agents / the avatar itself)
+ *
+ * Usage:
+ *   npm run debug:reap-sessions              # list + stop orphans
+ *   npm run debug:reap-sessions -- --dry-run # list + show what would be stopped
+ */
+
+import 'dotenv/config';
+import { RoomServiceClient, type Room } from 'livekit-server-sdk';
+import { LiveAvatarClient } from '../../shared/liveavatar/client.js';
+import { LiveAvatarHttpError } from '../../shared/liveavatar/errors.js';
+import { forgetSession, ledgerDir, listLedger, type LedgerEntry } from '../../shared/liveavatar/ledger.js';
+import { stopLiveAvatarSession } from '../../shared/liveavatar/session.js';
+
+// ParticipantInfo_Kind STANDARD and SIP (livekit-server-sdk doesn't re-export the enum).
+// Agents - and the avatar, whose token is an agent token - don't count.
+const HUMAN_KINDS = new Set([0, 3]);
+
+const CONFIG = {
+  LIVEKIT_URL: process.env.LIVEKIT_URL!,
+  LIVEKIT_API_KEY: process.env.LIVEKIT_API_KEY!,
+  LIVEKIT_API_SECRET: process.env.LIVEKIT_API_SECRET!,
+};
+
+interface Verdict {
+  entry: LedgerEntry;
+  orphaned: boolean;
+  why: string;
+}
+
+// ============================================================================
+// CHECKS
+// ============================================================================
+
+async function judge(entries: LedgerEntry[], roomService: RoomServiceClient): Promise<Verdict[]> {
+  const roomNames = [...new Set(entries.map((e) => e.roomName))];
+  const rooms = new Map<string, Room>();
+  for (const room of await roomService.listRooms(roomNames)) rooms.set(room.name, room);
+
+  const humansByRoom = new Map<string, number>();
+  for (const name of rooms.keys()) {
+    const participants = await roomService.listParticipants(name);
+    humansByRoom.set(name, participants.filter((p) => HUMAN_KINDS.has(p.kind)).length);
+  }
+
+  return entries.map((entry) => {
+    if (!rooms.has(entry.roomName)) return { entry, orphaned: true, why: 'room no longer exists' };
+    const humans = humansByRoom.get(entry.roomName)!;
+    if (humans === 0) return { entry, orphaned: true, why: 'no human participants' };
+    return { entry, orphaned: false, why: `${humans} human participant${humans === 1 ? '' : 's'}` };
+  });
+}
+
+function formatAge(startedAt: string): string {
+  const minutes = Math.round((Date.now() - Date.parse(startedAt)) / 60_000);
+  return minutes < 60 ? `${minutes}m` : `${Math.floor(minutes / 60)}h${minutes % 60}m`;
+}
+
+// ============================================================================
+// MAIN
+// ============================================================================
+
+async function main() {
+  const dryRun = process.argv.includes('--dry-run');
+  console.log(`\n=== LiveAvatar Session Reaper${dryRun ? ' (dry run)' : ''} ===\n`);
+
+  const missing = Object.entries(CONFIG).filter(([_, value]) => !value).map(([key]) => key);
+  if (missing.length > 0) {
+    console.error('❌ Missing environment variables:', missing.join(', '));
+    process.exit(1);
+  }
+
+  const entries = await listLedger();
+  if (entries.length === 0) {
+    console.log(`✅ No recorded sessions in ${ledgerDir()}\n`);
+    return;
+  }
+
+  const roomService = new RoomServiceClient(CONFIG.LIVEKIT_URL, CONFIG.LIVEKIT_API_KEY, CONFIG.LIVEKIT_API_SECRET);
+  const verdicts = await judge(entries, roomService);
+
+  console.log(`📒 ${entries.length} recorded session${entries.length === 1 ? '' : 's'}:`);
+  for (const { entry, orphaned, why } of verdicts) {
+    const mark = orphaned ? '🧟' : '🟢';
+    console.log(`  ${mark} ${entry.sessionId}  room=${entry.roomName}  age=${formatAge(entry.startedAt)}  pid=${entry.pid}  - ${why}`);
+  }
+
+  const orphans = verdicts.filter((v) => v.orphaned);
+  if (orphans.length === 0) {
+    console.log('\n✅ Nothing to reap\n');
+    return;
+  }
+  if (dryRun) {
+    console.log(`\n🔍 Would stop ${orphans.length} session${orphans.length === 1 ? '' : 's'} - run without --dry-run to stop them\n`);
+    return;
+  }
+
+  console.log();
+  let failed = 0;
+  for (const { entry } of orphans) {
+    const client = new LiveAvatarClient({ baseUrl: entry.apiUrl });
+    try {
+      await stopLiveAvatarSession(entry.sessionId, 'ORPHANED', client);
+      console.log(`🛑 Stopped ${entry.sessionId}`);
+    } catch (error) {
+      // Already stopped / expired on LiveAvatar's side - just clear the ledger
+      if (error instanceof LiveAvatarHttpError && (error.status === 400 || error.status === 404)) {
+        await forgetSession(entry.sessionId);
+        console.log(`🧹 ${entry.sessionId} had already ended (${error.status}) - removed from ledger`);
+        continue;
+      }
+      failed++;
+      console.error(`❌ Failed to stop ${entry.sessionId}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  console.log(failed === 0 ? '\n✅ Done\n' : `\n⚠️  ${failed} session${failed === 1 ? '' : 's'} could not be stopped\n`);
+  if (failed > 0) process.exitCode = 1;
+}
+
+main().catch((error) => {
+  console.error('Fatal error:', error);
+  process.exit(1);
+});
@@ -0,0 +1,288 @@
+/**
+ * Token Lint - Decode a LiveKit JWT and check it against what its holder needs
+ *
+ * A token missing `canPublishData` is why LiveAvatar answered
+ * /v1/sessions/start with a bare 500 for so long (see
+ * working-examples/liveavatar-custom-room). This decodes any LiveKit token,
+ * prints identity, room, grants, kind, attributes and expiry, and checks it
+ * against a requirement profile:
+ * - avatar - the token a LiveAvatar joins with in CUSTOM mode (token.ts)
+ * - human  - a user joining from a browser / meet.livekit.io
+ * - agent  - an agent participant
+ *
+ * Fully offline: the signature is checked with LIVEKIT_API_SECRET (or
+ * --secret), nothing is sent anywhere.
+ *
+ * Usage:
+ *   npm run debug:token-lint -- <jwt | meet URL | ->           # profile guessed from the token
+ *   npm run debug:token-lint -- <jwt> --profile avatar --session 30m
+ */
+
+import 'dotenv/config';
+import crypto from 'crypto';
+import { TrackSource, type VideoGrant } from 'livekit-server-sdk';
+import {
+  ATTRIBUTE_PUBLISH_ON_BEHALF,
+  AVATAR_IDENTITY,
+  DEFAULT_MAX_SESSION_MS,
+  REQUIRED_AVATAR_GRANTS,
+} from '../../shared/liveavatar/token.js';
+
+const USAGE = 'Usage: npm run debug:token-lint -- <jwt | meet URL | -> [--profile avatar|human|agent] [--session 30m] [--secret <secret>]';
+
+interface Claims {
+  iss?: string;
+  sub?: string;
+  name?: string;
+  kind?: string;
+  metadata?: string;
+  attributes?: Record<string, string>;
+  // The SDK writes canPublishSources as lowercase names ("camera"), not TrackSource numbers
+  video?: Omit<VideoGrant, 'canPublishSources'> & { canPublishSources?: string[] };
+  nbf?: number;
+  exp?: number;
+}
+
+type Level = 'pass' | 'warn' | 'fail';
+
+interface Finding {
+  level: Level;
+  message: string;
+}
+
+interface Profile {
+  label: string;
+  grants: Partial<Record<keyof VideoGrant, string>>;  // Required grant → what breaks without it
+  kind?: string;
+  minTtlMs: number;                                    // Default session length the token must outlive
+  check?: (claims: Claims, findings: Finding[]) => void;
+}
+
+// ============================================================================
+// PROFILES
+// ============================================================================
+
+const PROFILES: Record<string, Profile> = {
+  avatar: {
+    label: 'LiveAvatar CUSTOM avatar',
+    grants: REQUIRED_AVATAR_GRANTS,
+    kind: 'agent',
+    minTtlMs: DEFAULT_MAX_SESSION_MS,
+    check(claims, findings) {
+      const onBehalf = claims.attributes?.[ATTRIBUTE_PUBLISH_ON_BEHALF];
+      findings.push(onBehalf
+        ? { level: 'pass', message: `${ATTRIBUTE_PUBLISH_ON_BEHALF} = ${onBehalf}` }
+        : { level: 'warn', message: `${ATTRIBUTE_PUBLISH_ON_BEHALF} missing - the avatar's tracks aren't linked to the agent` });
+
+      const sources = claims.video?.canPublishSources;
+      if (sources?.length) {
+        const missing = [TrackSource.CAMERA, TrackSource.MICROPHONE]
+          .filter((s) => !sources.includes(TrackSource[s].toLowerCase()));
+        if (missing.length > 0) {
+          findings.push({ level: 'fail', message: `canPublishSources leaves out ${missing.map((s) => TrackSource[s]).join(' and ')}` });
+        }
+      }
+      if (claims.video?.hidden) findings.push({ level: 'fail', message: 'hidden: true - nobody would see the avatar' });
+    },
+  },
+  human: {
+    label: 'human participant',
+    grants: {
+      roomJoin: 'can\'t join the room',
+      canSubscribe: 'can\'t see or hear the avatar',
+      canPublish: 'can\'t publish a microphone for the agent to hear',
+    },
+    minTtlMs: 0,
+    check(claims, findings) {
+      if (claims.kind === 'agent') {
+        findings.push({ level: 'warn', message: 'kind is agent - the agent won\'t treat this participant as a user' });
+      }
+    },
+  },
+  agent: {
+    label: 'agent',
+    grants: {
+      roomJoin: 'can\'t join the room',
+      canSubscribe: 'can\'t hear the user',
+      canPublish: 'can\'t publish audio',
+      canPublishData: 'can\'t send transcriptions or RPC',
+    },
+    kind: 'agent',
+    minTtlMs: 0,
+  },
+};
+
+/** Avatar tokens have the avatar identity or publish on behalf of someone; other agent tokens are agents */
+function guessProfile(claims: Claims): string {
+  if (claims.sub === AVATAR_IDENTITY || claims.attributes?.[ATTRIBUTE_PUBLISH_ON_BEHALF]) return 'avatar';
+  return claims.kind === 'agent' ? 'agent' : 'human';
+}
+
+// ============================================================================
+// DECODING
+// ============================================================================
+
+/** Accepts a bare JWT or any URL with a token= parameter (the meet.livekit.io links our scripts print) */
+function extractJwt(input: string): string {
+  const trimmed = input.trim();
+  if (/^https?:\/\//.test(trimmed)) {
+    const token = new URL(trimmed).searchParams.get('token');
+    if (!token) throw new Error('URL has no token= parameter');
+    return token;
+  }
+  return trimmed;
+}
+
+function decode(jwt: string): { header: Record<string, unknown>; claims: Claims; signedPart: string; signature: string } {
+  const parts = jwt.split('.');
+  if (parts.length !== 3) throw new Error(`Not a JWT - expected 3 dot-separated parts, got ${parts.length}`);
+  const json = (part: string) => JSON.parse(Buffer.from(part, 'base64url').toString('utf8'));
+  try {
+    return { header: json(parts[0]), claims: json(parts[1]), signedPart: `${parts[0]}.${parts[1]}`, signature: parts[2] };
+  } catch {
+    throw new Error('Not a JWT - header or payload isn\'t base64url JSON');
+  }
+}
+
+function verifySignature(header: Record<string, unknown>, signedPart: string, signature: string, secret: string): Finding {
+  if (header.alg !== 'HS256') return { level: 'fail', message: `signed with ${header.alg} - LiveKit tokens are HS256` };
+  const expected = crypto.createHmac('sha256', secret).update(signedPart).digest();
+  const actual = Buffer.from(signature, 'base64url');
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected)
+    ? { level: 'pass', message: 'signature valid for this API secret' }
+    : { level: 'fail', message: 'signature does not match this API secret - LiveKit will reject the token (wrong project or secret?)' };
+}
+
+// ============================================================================
+// CHECKS
+// ============================================================================
+
+function lint(claims: Claims, profile: Profile, sessionMs: number): Finding[] {
+  const findings: Finding[] = [];
+  const video = claims.video ?? {};
+
+  if (!claims.sub) findings.push({ level: 'fail', message: 'no identity (sub) - LiveKit rejects tokens without one' });
+  findings.push(video.room
+    ? { level: 'pass', message: `room = ${video.room}` }
+    : { level: 'fail', message: 'no room - token isn\'t scoped to a room' });
+
+  for (const [grant, consequence] of Object.entries(profile.grants)) {
+    findings.push(video[grant as keyof VideoGrant] === true
+      ? { level: 'pass', message: `${grant}: true` }
+      : { level: 'fail', message: `${grant} missing - ${consequence}` });
+  }
+
+  if (profile.kind) {
+    findings.push(claims.kind === profile.kind
+      ? { level: 'pass', message: `kind = ${claims.kind}` }
+      : { level: 'fail', message: `kind is ${claims.kind ?? 'unset'}, expected ${profile.kind}` });
+  }
+
+  findings.push(...checkExpiry(claims, sessionMs));
+  profile.check?.(claims, findings);
+  return findings;
+}
+
+function checkExpiry(claims: Claims, sessionMs: number): Finding[] {
+  const now = Date.now() / 1000;
+  if (claims.nbf && claims.nbf > now + 1) {
+    return [{ level: 'fail', message: `not valid for another ${formatDuration((claims.nbf - now) * 1000)}` }];
+  }
+  if (!claims.exp) return [{ level: 'warn', message: 'no expiry (exp)' }];
+
+  const leftMs = (claims.exp - now) * 1000;
+  if (leftMs <= 0) return [{ level: 'fail', message: `expired ${formatDuration(-leftMs)} ago` }];
+  if (leftMs < sessionMs) {
+    return [{
+      level: 'fail',
+      message: `expires in ${formatDuration(leftMs)}, shorter than the ${formatDuration(sessionMs)} session - rejoins after that fail`,
+    }];
+  }
+  return [{ level: 'pass', message: `expires in ${formatDuration(leftMs)}` }];
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function formatDuration(ms: number): string {
+  const s = Math.round(ms / 1000);
+  if (s < 60) return `${s}s`;
+  if (s < 3600) return `${Math.floor(s / 60)}m${s % 60 ? `${s % 60}s` : ''}`;
+  return `${Math.floor(s / 3600)}h${Math.floor((s % 3600) / 60) ? `${Math.floor((s % 3600) / 60)}m` : ''}`;
+}
+
+/** "90", "90s", "30m", "2h" → ms */
+function parseDuration(raw: string): number {
+  const match = /^(\d+(?:\.\d+)?)(s|m|h)?$/.exec(raw.trim());
+  if (!match) throw new Error(`Invalid --session "${raw}" (expected e.g. 90s, 30m, 2h)`);
+  return Number(match[1]) * { s: 1000, m: 60_000, h: 3_600_000 }[(match[2] ?? 's') as 's' | 'm' | 'h'];
+}
+
+function flag(args: string[], name: string): string | undefined {
+  const i = args.indexOf(name);
+  return i >= 0 ? args[i + 1] : undefined;
+}
+
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+// ============================================================================
+// MAIN
+// ============================================================================
+
+async function main() {
+  const args = process.argv.slice(2);
+  const values = new Set(['--profile', '--session', '--secret'].map((f) => flag(args, f)));
+  const input = args.find((arg) => (!arg.startsWith('--') || arg === '-') && !values.has(arg));
+  if (!input) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  const jwt = extractJwt(input === '-' ? await readStdin() : input);
+  const { header, claims, signedPart, signature } = decode(jwt);
+
+  const profileName = flag(args, '--profile') ?? guessProfile(claims);
+  const profile = PROFILES[profileName];
+  if (!profile) {
+    console.error(`❌ Unknown profile "${profileName}" (expected ${Object.keys(PROFILES).join(', ')})`);
+    process.exit(1);
+  }
+  const session = flag(args, '--session');
+  const sessionMs = session ? parseDuration(session) : profile.minTtlMs;
+
+  console.log('\n=== LiveKit Token ===\n');
+  console.log(`Identity:    ${claims.sub ?? '-'}${claims.name ? ` (${claims.name})` : ''}`);
+  console.log(`Kind:        ${claims.kind ?? '-'}`);
+  console.log(`API key:     ${claims.iss ?? '-'}`);
+  console.log(`Room:        ${claims.video?.room ?? '-'}`);
+  console.log(`Grants:      ${JSON.stringify(claims.video ?? {})}`);
+  console.log(`Attributes:  ${JSON.stringify(claims.attributes ?? {})}`);
+  if (claims.metadata) console.log(`Metadata:    ${claims.metadata}`);
+  console.log(`Expires:     ${claims.exp ? new Date(claims.exp * 1000).toISOString() : '-'}`);
+
+  const findings: Finding[] = [];
+  const secret = flag(args, '--secret') ?? process.env.LIVEKIT_API_SECRET;
+  findings.push(secret
+    ? verifySignature(header, signedPart, signature, secret)
+    : { level: 'warn', message: 'signature not checked - set LIVEKIT_API_SECRET or pass --secret' });
+  findings.push(...lint(claims, profile, sessionMs));
+
+  const guessed = flag(args, '--profile') ? '' : ' (guessed - override with --profile)';
+  console.log(`\n=== Checks: ${profile.label}${guessed} ===\n`);
+  const icons: Record<Level, string> = { pass: '✅', warn: '⚠️ ', fail: '❌' };
+  for (const { level, message } of findings) console.log(`${icons[level]} ${message}`);
+
+  const failed = findings.filter((f) => f.level === 'fail').length;
+  console.log(failed === 0 ? '\n✅ Token looks good\n' : `\n❌ ${failed} problem${failed === 1 ? '' : 's'}\n`);
+  if (failed > 0) process.exitCode = 1;
+}
+
+main().catch((error) => {
+  console.error('Fatal error:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
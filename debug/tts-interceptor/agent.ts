@@ -13,14 +13,31 @@ import * as openai from '@livekit/agents-plugin-openai';
 import * as deepgram from '@livekit/agents-plugin-deepgram';
 import * as elevenlabs from '@livekit/agents-plugin-elevenlabs';
 import { AudioFrame } from '@livekit/rtc-node';
+import type { ReadableStream } from 'stream/web';
 import { fileURLToPath } from 'url';
 import WebSocket from 'ws';
-import crypto from 'crypto';
+import { audioOutputsFromEnv, fanOutAudioStream, type SinkEntry } from '../../shared/audio/fanout.js';
+import { DEBUG_AUDIO_WS_URL, WebSocketSink, openWebSocket } from '../../shared/audio/websocket-sink.js';
+import { chunkMsFromEnv } from '../../shared/audio/chunker.js';
+import {
+  describeJobConfig,
+  elevenLabsTTSOptions,
+  jobConfigFromMetadata,
+  type AgentPersona,
+} from '../../shared/job-config.js';
+
+// Default persona - dispatch metadata can override any of it (shared/job-config.ts)
+const PERSONA: AgentPersona = {
+  instructions: 'You are a helpful assistant. Keep responses brief.',
+};
 
 // Extend the Agent class to override ttsNode
 class CustomAgent extends voice.Agent {
   ws: WebSocket | null = null;
 
+  // Where TTS audio goes: TTS_OUTPUT=debug (default), room, or both
+  outputs = audioOutputsFromEnv(['debug'], ['debug', 'room']);
+
   // Override ttsNode to intercept audio
   async ttsNode(
     text: ReadableStream<string>,
@@ -32,57 +49,13 @@ class CustomAgent extends voice.Agent {
     const audioStream = await voice.Agent.default.ttsNode(this, text, modelSettings);
     if (!audioStream) return null;
 
-    const ws = this.ws;
-    const eventId = crypto.randomUUID();
-
-    // Send start event if connected (using LiveAvatar format)
-    if (ws?.readyState === WebSocket.OPEN) {
-      ws.send(JSON.stringify({ type: 'agent.speak_started', event_id: eventId }));
+    // The debug server gets LiveAvatar-format messages at 24kHz mono
+    const sinks: SinkEntry[] = [];
+    if (this.outputs.has('debug') && this.ws) {
+      sinks.push({ sink: new WebSocketSink(this.ws, { chunkMs: chunkMsFromEnv() }), overflow: 'drop' });
     }
 
-    // Return modified stream
-    return new ReadableStream<AudioFrame>({
-      async start(controller) {
-        const reader = audioStream.getReader();
-        let audioBuffer: number[] = [];
-
-        try {
-          while (true) {
-            const { done, value: frame } = await reader.read();
-            if (done) break;
-
-            // Extract audio samples
-            if (frame?.data) {
-              const samples = Array.from(new Int16Array(frame.data));
-              audioBuffer.push(...samples);
-
-              // Send chunks of audio to WebSocket
-              while (audioBuffer.length >= 2400 && ws?.readyState === WebSocket.OPEN) {
-                const chunk = audioBuffer.splice(0, 2400);
-                const base64 = Buffer.from(new Int16Array(chunk).buffer).toString('base64');
-
-                ws.send(JSON.stringify({
-                  type: 'agent.speak',
-                  event_id: eventId,
-                  audio: base64,
-                }));
-              }
-            }
-
-            // DON'T pass frame through to LiveKit - only send to WebSocket
-            // controller.enqueue(frame);  // COMMENTED OUT - audio only goes to WebSocket
-          }
-
-          // Send end event (using LiveAvatar format)
-          if (ws?.readyState === WebSocket.OPEN) {
-            ws.send(JSON.stringify({ type: 'agent.speak_end', event_id: eventId }));
-          }
-        } finally {
-          reader.releaseLock();
-          controller.close();
-        }
-      },
-    });
+    return fanOutAudioStream(audioStream, { room: this.outputs.has('room'), sinks });
   }
 }
 
@@ -92,6 +65,9 @@ export default defineAgent({
   },
 
   entry: async (ctx: JobContext) => {
+    const config = jobConfigFromMetadata(ctx.job.metadata, PERSONA);
+    console.log(`🎭 ${describeJobConfig(config)}`);
+
     await ctx.connect();
     console.log(`✅ Connected to room: ${ctx.room.name}`);
 
@@ -99,25 +75,22 @@ export default defineAgent({
     console.log(`👤 Participant connected: ${participant.identity}`);
 
     const agent = new CustomAgent({
-      instructions: 'You are a helpful assistant. Keep responses brief.',
+      instructions: config.instructions,
+      tools: config.tools,
     });
 
     // Connect WebSocket to debug server
-    agent.ws = new WebSocket('ws://localhost:8889');
-    await new Promise((resolve) => {
-      agent.ws!.on('open', () => {
-        console.log('✅ WebSocket connected to debug server');
-        resolve(undefined);
-      });
-    });
+    if (agent.outputs.has('debug')) {
+      agent.ws = await openWebSocket(DEBUG_AUDIO_WS_URL);
+      console.log('✅ WebSocket connected to debug server');
+    }
+    console.log(`🔀 TTS output: ${[...agent.outputs].join(' + ')}`);
 
     // Create session with plugins
     const session = new voice.AgentSession({
       stt: new deepgram.STT(),
-      llm: new openai.LLM(),
-      tts: new elevenlabs.TTS({
-        voiceId: '21m00Tcm4TlvDq8ikWAM', // Rachel
-      }),
+      llm: new openai.LLM(config.llm),
+      tts: new elevenlabs.TTS(elevenLabsTTSOptions(config.tts)),
       vad: ctx.proc.userData.vad,
     });
 
@@ -127,9 +100,10 @@ export default defineAgent({
       room: ctx.room,
       participant,
       outputOptions: {
-        audioEnabled: true,  // Keep audio enabled so we can hear it
+        audioEnabled: true,  // Needed for TTS_OUTPUT=room
       },
     });
+    if (config.greeting) session.say(config.greeting);
     console.log('🚀 Agent running - TTS audio will be intercepted');
   },
 });
@@ -32,6 +32,12 @@ import * as deepgram from '@livekit/agents-plugin-deepgram';
 import * as elevenlabs from '@livekit/agents-plugin-elevenlabs';
 import * as silero from '@livekit/agents-plugin-silero';
 import { fileURLToPath } from 'url';
+import {
+  describeJobConfig,
+  inferenceModels,
+  jobConfigFromMetadata,
+  type AgentPersona,
+} from '../../shared/job-config.js';
 import { LiveAvatarForwarder, type LiveAvatarConfig } from './liveavatar-forwarder.js';
 
 // Initialize logger
@@ -39,6 +45,14 @@ initializeLogger({ pretty: true, level: 'info' });
 
 console.log('🚀 Starting LiveAvatar voice agent (track capture method)');
 
+// Default persona - dispatch metadata can override any of it (shared/job-config.ts)
+const PERSONA: AgentPersona = {
+  instructions: `You are a helpful assistant with a visual avatar presence in a LiveKit room.
+      Keep your responses brief and friendly.
+      You can see that users are interacting with your avatar representation.`,
+  greeting: 'Hello! I am your avatar assistant. How can I help you today?',
+};
+
 export default defineAgent({
   prewarm: async (proc: JobProcess) => {
     // Preload VAD model for faster startup
@@ -46,6 +60,10 @@ export default defineAgent({
   },
 
   entry: async (ctx: JobContext) => {
+    const config = jobConfigFromMetadata(ctx.job.metadata, PERSONA);
+    console.log(`🎭 ${describeJobConfig(config)}`);
+    const models = inferenceModels(config);
+
     await ctx.connect();
     console.log(`✅ Agent connected to room: ${ctx.room.name}`);
 
@@ -55,7 +73,7 @@ export default defineAgent({
     // Configure LiveAvatar
     const liveAvatarConfig: LiveAvatarConfig = {
       apiKey: process.env.LIVE_AVATAR_API_KEY!,
-      avatarId: process.env.LIVE_AVATAR_ID!, // Optional, will use first active if not set
+      avatarId: config.avatar ?? process.env.LIVE_AVATAR_ID!, // Optional, will use first active if not set
       livekitUrl: process.env.LIVEKIT_URL!,
       livekitApiKey: process.env.LIVEKIT_API_KEY!,
       livekitApiSecret: process.env.LIVEKIT_API_SECRET!,
@@ -70,16 +88,15 @@ export default defineAgent({
 
     // Create agent with instructions
     const assistant = new voice.Agent({
-      instructions: `You are a helpful assistant with a visual avatar presence in a LiveKit room.
-      Keep your responses brief and friendly.
-      You can see that users are interacting with your avatar representation.`,
+      instructions: config.instructions,
+      tools: config.tools,
     });
 
     // Create agent session - let it publish audio normally
     const session = new voice.AgentSession({
       stt: 'deepgram/nova-2:en',
-      llm: 'openai/gpt-4o-mini',
-      tts: 'elevenlabs/eleven_turbo_v2:21m00Tcm4TlvDq8ikWAM',
+      llm: models.llm,
+      tts: models.tts,
       vad: ctx.proc.userData.vad as silero.VAD,
     });
 
@@ -130,8 +147,10 @@ export default defineAgent({
     console.log('✅ Agent session started');
 
     // Say hello immediately to force audio track publication
-    session.say('Hello! I am your avatar assistant. How can I help you today?');
-    console.log('💬 Triggered initial speech to publish audio track');
+    if (config.greeting) {
+      session.say(config.greeting);
+      console.log('💬 Triggered initial speech to publish audio track');
+    }
 
     // Wait a moment for the track to be published
     await new Promise(resolve => setTimeout(resolve, 500));
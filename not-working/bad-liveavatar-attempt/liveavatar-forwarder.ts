@@ -6,8 +6,11 @@
 import type { Room, AudioTrack, LocalParticipant, AudioFrame } from '@livekit/rtc-node';
 import { AudioStream } from '@livekit/rtc-node';
 import { log } from '@livekit/agents';
-import WebSocket from 'ws';
-import { AccessToken } from 'livekit-server-sdk';
+import { LiveAvatarClient } from '../../shared/liveavatar/client.js';
+import { startLiveAvatarSession, stopLiveAvatarSession } from '../../shared/liveavatar/session.js';
+import { LiveAvatarSocket } from '../../shared/liveavatar/socket.js';
+import { LIVE_AVATAR_SAMPLE_RATE } from '../../shared/liveavatar/speech-scheduler.js';
+import { StreamingResampler } from '../../shared/audio/resampler.js';
 
 export interface LiveAvatarConfig {
   apiKey: string;
@@ -17,35 +20,23 @@ export interface LiveAvatarConfig {
   livekitApiSecret: string;
 }
 
-interface LiveAvatarSessionResponse {
-  data: {
-    session_id: string;
-    session_token: string;
-  };
-}
-
-interface LiveAvatarStartResponse {
-  data: {
-    session_id: string;
-    ws_url?: string;
-  };
-}
-
 export class LiveAvatarForwarder {
-  private ws?: WebSocket;
+  private socket?: LiveAvatarSocket;
+  private client: LiveAvatarClient;
   private sessionId?: string;
   private wsUrl?: string;
   private eventId: string;
-  private isConnected: boolean = false;
   private audioStream?: AudioStream;
   private logger = log();
   private forwardingTask?: Promise<void>;
+  private resampler = new StreamingResampler(LIVE_AVATAR_SAMPLE_RATE);
 
   constructor(
     private config: LiveAvatarConfig,
     private roomName: string,
     private avatarParticipantIdentity: string = 'liveavatar-bot',
   ) {
+    this.client = new LiveAvatarClient({ apiKey: config.apiKey });
     this.eventId = this.generateEventId();
   }
 
@@ -72,135 +63,56 @@ export class LiveAvatarForwarder {
   }
 
   private async startLiveAvatarSession(room: Room): Promise<void> {
-    // Fetch avatars
-    const avatarsResponse = await fetch('https://api.liveavatar.com/v1/avatars/public', {
-      headers: { 'X-API-KEY': this.config.apiKey },
+    const started = await startLiveAvatarSession({
+      roomName: this.roomName,
+      avatarId: this.config.avatarId,
+      avatarIdentity: this.avatarParticipantIdentity,
+      maxSessionMs: 10 * 60_000,
+      client: this.client,
+      livekitUrl: this.config.livekitUrl,
+      livekitApiKey: this.config.livekitApiKey,
+      livekitApiSecret: this.config.livekitApiSecret,
     });
+    this.sessionId = started.sessionId;
+    this.wsUrl = started.wsUrl;
 
-    if (!avatarsResponse.ok) {
-      throw new Error(`Failed to fetch avatars: ${avatarsResponse.status}`);
+    if (!this.wsUrl) {
+      throw new Error('No WebSocket URL returned from LiveAvatar');
     }
 
-    const avatarsData = await avatarsResponse.json();
-    const activeAvatars = avatarsData.data.results.filter((a: any) => a.status === 'ACTIVE');
-    const avatarId = this.config.avatarId || activeAvatars[0]?.id;
+    this.logger.info(`LiveAvatar session started, WebSocket URL: ${this.wsUrl}`);
+  }
 
-    if (!avatarId) {
-      throw new Error('No avatar ID provided and no active avatars found');
+  private async connectWebSocket(): Promise<void> {
+    if (!this.wsUrl) {
+      throw new Error('No WebSocket URL available');
     }
 
-    this.logger.info(`Using avatar: ${avatarId}`);
+    this.logger.info('Connecting to LiveAvatar WebSocket...');
+    // Reconnects (same session) on drops; audio sent meanwhile is buffered
+    this.socket = await LiveAvatarSocket.connect(this.wsUrl);
+    this.logger.info('WebSocket connected to LiveAvatar');
 
-    // Create avatar token
-    const avatarToken = new AccessToken(
-      this.config.livekitApiKey,
-      this.config.livekitApiSecret,
-      {
-        identity: this.avatarParticipantIdentity,
-        ttl: '10m',
-      }
-    );
-
-    avatarToken.addGrant({
-      room: this.roomName,
-      roomJoin: true,
-      canPublish: true,
-      canPublishData: true,
-      canSubscribe: true,
+    this.socket.on('reconnecting', ({ attempt, delayMs, reason }) => {
+      this.logger.warn(`WebSocket ${reason}, reconnect #${attempt} in ${delayMs}ms`);
     });
 
-    const avatarJwt = await avatarToken.toJwt();
-
-    // Create session token
-    const tokenPayload = {
-      mode: 'CUSTOM',
-      avatar_id: avatarId,
-      livekit_config: {
-        livekit_url: this.config.livekitUrl,
-        livekit_room: this.roomName,
-        livekit_client_token: avatarJwt,
-      },
-    };
-
-    const tokenResponse = await fetch('https://api.liveavatar.com/v1/sessions/token', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'X-API-KEY': this.config.apiKey,
-      },
-      body: JSON.stringify(tokenPayload),
+    this.socket.on('reconnected', ({ downtimeMs, flushed, dropped }) => {
+      this.logger.info(`WebSocket resumed after ${downtimeMs}ms (${flushed} buffered, ${dropped} dropped)`);
     });
 
-    if (!tokenResponse.ok) {
-      const error = await tokenResponse.text();
-      throw new Error(`Failed to create session token: ${tokenResponse.status} - ${error}`);
-    }
-
-    const tokenData: LiveAvatarSessionResponse = await tokenResponse.json();
-    const sessionToken = tokenData.data.session_token;
-    this.sessionId = tokenData.data.session_id;
-
-    this.logger.info(`Session token created: ${this.sessionId}`);
-
-    // Start session and get WebSocket URL
-    const startResponse = await fetch('https://api.liveavatar.com/v1/sessions/start', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${sessionToken}`,
-      },
-      body: JSON.stringify({}),
+    this.socket.on('reconnect_failed', ({ reason }) => {
+      this.logger.error(`WebSocket lost for good: ${reason}`);
+      this.socket = undefined;
     });
 
-    if (!startResponse.ok) {
-      const error = await startResponse.text();
-      throw new Error(`Failed to start session: ${startResponse.status} - ${error}`);
-    }
-
-    const startData: LiveAvatarStartResponse = await startResponse.json();
-    this.wsUrl = startData.data.ws_url;
-
-    if (!this.wsUrl) {
-      throw new Error('No WebSocket URL returned from LiveAvatar');
-    }
-
-    this.logger.info(`LiveAvatar session started, WebSocket URL: ${this.wsUrl}`);
-  }
-
-  private async connectWebSocket(): Promise<void> {
-    return new Promise((resolve, reject) => {
-      if (!this.wsUrl) {
-        reject(new Error('No WebSocket URL available'));
-        return;
+    this.socket.on('message', (data) => {
+      try {
+        const message = JSON.parse(data.toString());
+        this.logger.debug('WebSocket message:', message);
+      } catch (error) {
+        // Ignore parse errors
       }
-
-      this.logger.info('Connecting to LiveAvatar WebSocket...');
-      this.ws = new WebSocket(this.wsUrl);
-
-      this.ws.on('open', () => {
-        this.logger.info('WebSocket connected to LiveAvatar');
-        this.isConnected = true;
-        resolve();
-      });
-
-      this.ws.on('error', (error) => {
-        this.logger.error('WebSocket error:', error);
-        this.isConnected = false;
-      });
-
-      this.ws.on('close', (code, reason) => {
-        this.logger.info(`WebSocket closed: ${code} - ${reason}`);
-        this.isConnected = false;
-      });
-
-      this.ws.on('message', (data) => {
-        try {
-          const message = JSON.parse(data.toString());
-          this.logger.debug('WebSocket message:', message);
-        } catch (error) {
-          // Ignore parse errors
-        }
-      });
     });
   }
 
@@ -244,27 +156,19 @@ export class LiveAvatarForwarder {
 
     this.logger.info('Starting audio forwarding to LiveAvatar');
 
-    // Simple resampler (48kHz -> 24kHz)
-    const resampleRatio = 2; // 48000 / 24000
-
     for await (const audioFrame of this.audioStream) {
-      if (!this.isConnected || !this.ws) {
+      if (!this.socket) {
         this.logger.warn('WebSocket not connected, dropping frame');
         continue;
       }
 
       try {
-        // Simple downsampling (take every 2nd sample for 48kHz -> 24kHz)
-        const inputData = audioFrame.data;
-        const outputLength = Math.floor(inputData.length / resampleRatio);
-        const outputData = new Int16Array(outputLength);
-
-        for (let i = 0; i < outputLength; i++) {
-          outputData[i] = inputData[i * resampleRatio];
-        }
+        // Any track rate -> 24kHz, low-pass filtered (no more every-2nd-sample aliasing)
+        const outputData = this.resampler.push(audioFrame);
+        if (outputData.length === 0) continue;
 
         // Convert to base64
-        const pcmData = new Uint8Array(outputData.buffer);
+        const pcmData = new Uint8Array(outputData.buffer, outputData.byteOffset, outputData.byteLength);
         const base64Audio = Buffer.from(pcmData).toString('base64');
 
         // Send to LiveAvatar
@@ -274,7 +178,7 @@ export class LiveAvatarForwarder {
           audio: base64Audio,
         };
 
-        this.ws.send(JSON.stringify(message));
+        this.socket.send(message);
       } catch (error) {
         this.logger.error('Failed to forward audio:', error);
       }
@@ -282,50 +186,42 @@ export class LiveAvatarForwarder {
   }
 
   onSpeechEnd(): void {
-    if (this.isConnected && this.ws) {
+    if (this.socket) {
       const message = {
         type: 'agent.speak_end',
         event_id: this.eventId,
       };
-      this.ws.send(JSON.stringify(message));
+      this.socket.send(message);
       this.eventId = this.generateEventId();
     }
   }
 
   onInterrupt(): void {
-    if (this.isConnected && this.ws) {
+    if (this.socket) {
       const message = {
         type: 'agent.interrupt',
         event_id: this.eventId,
       };
-      this.ws.send(JSON.stringify(message));
+      this.socket.send(message);
       this.eventId = this.generateEventId();
     }
+    // Don't let the interrupted speech's filter tail leak into the next event
+    this.resampler.reset();
   }
 
   async stop(): Promise<void> {
     this.logger.info('Stopping LiveAvatar forwarder');
 
     // Close WebSocket
-    if (this.ws) {
-      this.ws.close();
-      this.ws = undefined;
+    if (this.socket) {
+      this.socket.close();
+      this.socket = undefined;
     }
 
     // Stop LiveAvatar session
     if (this.sessionId) {
       try {
-        await fetch('https://api.liveavatar.com/v1/sessions/stop', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'X-API-KEY': this.config.apiKey,
-          },
-          body: JSON.stringify({
-            session_id: this.sessionId,
-            reason: 'USER_CLOSED',
-          }),
-        });
+        await stopLiveAvatarSession(this.sessionId, 'USER_CLOSED', this.client);
         this.logger.info('LiveAvatar session stopped');
       } catch (error) {
         this.logger.error('Failed to stop LiveAvatar session:', error);
@@ -0,0 +1,63 @@
+/**
+ * Agent registry - The dispatch name of every agent worker in this repo
+ *
+ * By default the workers register without an agentName, so LiveKit
+ * auto-dispatches them into every new room - handy for local dev, but a
+ * dispatch to a name (create-room-and-dispatch.ts) never reaches them.
+ * With AGENT_DISPATCH=explicit a worker registers under its name below and
+ * only joins the rooms it's dispatched to, with that dispatch's metadata.
+ */
+
+export interface RepoAgent {
+  agentName: string;    // WorkerOptions.agentName in explicit mode, and what to dispatch
+  npmScript: string;    // How to start the worker
+  description: string;
+}
+
+export const AGENTS = {
+  'voice-basic': {
+    agentName: 'simple-agent',
+    npmScript: 'agent:voice-basic',
+    description: 'Basic STT → LLM → TTS voice agent',
+  },
+  'tool-calling': {
+    agentName: 'tool-calling-agent',
+    npmScript: 'agent:tool-calling',
+    description: 'Voice agent with tools',
+  },
+  'custom-avatar': {
+    agentName: 'liveavatar-agent',
+    npmScript: 'wip:custom-agent',
+    description: 'Voice agent speaking through LiveAvatar',
+  },
+  'slot-machine': {
+    agentName: 'slot-machine-agent',
+    npmScript: 'wip:slot-machine',
+    description: 'Slot machine game host on LiveAvatar',
+  },
+} as const satisfies Record<string, RepoAgent>;
+
+export type RepoAgentKey = keyof typeof AGENTS;
+
+export type DispatchMode = 'auto' | 'explicit';
+
+/** AGENT_DISPATCH ('auto' or 'explicit', default auto) */
+export function dispatchModeFromEnv(): DispatchMode {
+  const raw = process.env.AGENT_DISPATCH?.trim();
+  if (!raw) return 'auto';
+  if (raw !== 'auto' && raw !== 'explicit') {
+    throw new Error(`Invalid AGENT_DISPATCH: "${raw}" (expected auto or explicit)`);
+  }
+  return raw;
+}
+
+/** WorkerOptions.agentName for `key` - unset (auto-dispatch) unless AGENT_DISPATCH=explicit */
+export function workerAgentName(key: RepoAgentKey): string | undefined {
+  return dispatchModeFromEnv() === 'explicit' ? AGENTS[key].agentName : undefined;
+}
+
+/** Registry entry for a registry key or agentName, if it's one of ours */
+export function findAgent(nameOrKey: string): RepoAgent | undefined {
+  if (nameOrKey in AGENTS) return AGENTS[nameOrKey as RepoAgentKey];
+  return Object.values(AGENTS).find((agent) => agent.agentName === nameOrKey);
+}
@@ -0,0 +1,102 @@
+/**
+ * PcmChunker - Fixed-duration chunks out of arbitrarily sized PCM frames
+ *
+ * The ttsNode interceptors used to do this with a number[]:
+ * Array.from(frame) → push(...samples) → splice(0, 2400) → new Int16Array.
+ * That boxes every sample, copies it three times, and the spread overflows
+ * the call stack once a single frame is big enough (on Node 20 somewhere
+ * between 120k and 240k samples - 5 to 10s of 24kHz audio). This keeps
+ * samples in a preallocated Int16Array ring and copies each one in and out
+ * exactly once.
+ *
+ * Benchmark against the old approach: npm run debug:bench-chunker
+ */
+
+export const DEFAULT_CHUNK_MS = 100;
+
+/** Chunk duration from LIVE_AVATAR_CHUNK_MS, falling back to DEFAULT_CHUNK_MS */
+export function chunkMsFromEnv(): number {
+  const value = Number(process.env.LIVE_AVATAR_CHUNK_MS);
+  return Number.isFinite(value) && value > 0 ? value : DEFAULT_CHUNK_MS;
+}
+
+export class PcmChunker {
+  /** Samples per emitted chunk */
+  readonly chunkSamples: number;
+
+  private ring: Int16Array;
+  private readIndex = 0;
+  private length = 0;
+
+  constructor(
+    readonly sampleRate: number,
+    readonly chunkMs: number = DEFAULT_CHUNK_MS,
+  ) {
+    this.chunkSamples = Math.max(1, Math.round((sampleRate * chunkMs) / 1000));
+    this.ring = new Int16Array(this.chunkSamples * 4);
+  }
+
+  /** Samples buffered but not yet emitted */
+  get buffered(): number {
+    return this.length;
+  }
+
+  /**
+   * Add samples, return every chunk that is now complete. Chunks are fresh
+   * arrays the caller owns - safe to queue.
+   */
+  push(samples: Int16Array): Int16Array[] {
+    const chunks: Int16Array[] = [];
+    let offset = 0;
+
+    while (offset < samples.length) {
+      const free = this.ring.length - this.length;
+      const count = Math.min(free, samples.length - offset);
+      this.write(samples.subarray(offset, offset + count));
+      offset += count;
+
+      while (this.length >= this.chunkSamples) {
+        chunks.push(this.read(this.chunkSamples));
+      }
+    }
+
+    return chunks;
+  }
+
+  /** Remaining partial chunk (end of stream), or null if empty */
+  flush(): Int16Array | null {
+    return this.length > 0 ? this.read(this.length) : null;
+  }
+
+  /** Drop anything buffered (e.g. on interruption) */
+  reset(): void {
+    this.readIndex = 0;
+    this.length = 0;
+  }
+
+  private write(samples: Int16Array): void {
+    const capacity = this.ring.length;
+    const writeIndex = (this.readIndex + this.length) % capacity;
+    const first = Math.min(samples.length, capacity - writeIndex);
+
+    this.ring.set(samples.subarray(0, first), writeIndex);
+    if (first < samples.length) {
+      this.ring.set(samples.subarray(first), 0);
+    }
+    this.length += samples.length;
+  }
+
+  private read(count: number): Int16Array {
+    const capacity = this.ring.length;
+    const out = new Int16Array(count);
+    const first = Math.min(count, capacity - this.readIndex);
+
+    out.set(this.ring.subarray(this.readIndex, this.readIndex + first));
+    if (first < count) {
+      out.set(this.ring.subarray(0, count - first), first);
+    }
+    this.readIndex = (this.readIndex + count) % capacity;
+    this.length -= count;
+    return out;
+  }
+}
@@ -0,0 +1,278 @@
+/**
+ * AudioFanout - One TTS stream, several destinations
+ *
+ * The ttsNode overrides used to pick a single destination by commenting
+ * `controller.enqueue(frame)` in or out. This sends every frame to any
+ * combination of sinks at once - room track, LiveAvatar, debug server -
+ * chosen with TTS_OUTPUT (e.g. `TTS_OUTPUT=avatar,room`).
+ *
+ * Each sink gets its own bounded queue and pump, so a slow sink only slows
+ * itself down:
+ * - 'block' sinks (room) make write() wait while their queue is full, so
+ *   backpressure reaches the TTS reader
+ * - 'drop' sinks (debug server) discard their oldest queued frame instead
+ * The avatar sink never fills its queue: it hands audio straight to the
+ * speech scheduler, which holds the backlog and paces it to playback.
+ * A sink that throws is logged and detached; the others keep going.
+ */
+
+import type { AudioFrame } from '@livekit/rtc-node';
+import { ReadableStream, type ReadableStreamDefaultController } from 'stream/web';
+
+export type AudioOutputName = 'room' | 'avatar' | 'debug';
+export type OverflowPolicy = 'block' | 'drop';
+
+export interface AudioSink {
+  readonly name: string;
+  /** Take one frame. Return a promise to hold the next frame back until it settles. */
+  write(frame: AudioFrame): void | Promise<void>;
+  /** End of stream - flush whatever is buffered */
+  end(): void | Promise<void>;
+  /** Stream cancelled or failed - drop whatever is buffered */
+  abort(reason?: unknown): void;
+}
+
+export interface SinkOptions {
+  overflow?: OverflowPolicy;
+  /** Frames queued for this sink before its overflow policy kicks in */
+  maxQueuedFrames?: number;
+}
+
+const AUDIO_OUTPUTS: AudioOutputName[] = ['room', 'avatar', 'debug'];
+
+/**
+ * Parse TTS_OUTPUT (comma-separated sink names). Throws on names the
+ * calling agent doesn't support, so a typo fails at startup, not silently.
+ */
+export function audioOutputsFromEnv(
+  defaults: AudioOutputName[],
+  supported: AudioOutputName[] = AUDIO_OUTPUTS,
+): Set<AudioOutputName> {
+  const raw = process.env.TTS_OUTPUT?.trim();
+  if (!raw) return new Set(defaults);
+
+  const names = raw.split(',').map((name) => name.trim()).filter(Boolean);
+  const unknown = names.filter((name) => !supported.includes(name as AudioOutputName));
+  if (unknown.length > 0) {
+    throw new Error(`Unsupported TTS_OUTPUT sink(s): ${unknown.join(', ')} (supported: ${supported.join(', ')})`);
+  }
+  return new Set(names as AudioOutputName[]);
+}
+
+// ============================================================================
+// PER-SINK PUMP
+// ============================================================================
+
+class SinkPump {
+  private queue: AudioFrame[] = [];
+  private wake?: () => void;    // Pump waiting for a frame
+  private space?: () => void;   // Writer waiting for queue space
+  private ending = false;
+  private detached = false;
+  private dropped = 0;
+  private readonly done: Promise<void>;
+
+  constructor(
+    readonly sink: AudioSink,
+    private overflow: OverflowPolicy,
+    private maxQueuedFrames: number,
+  ) {
+    this.done = this.run();
+  }
+
+  async offer(frame: AudioFrame): Promise<void> {
+    while (!this.detached && this.queue.length >= this.maxQueuedFrames) {
+      if (this.overflow === 'drop') {
+        this.queue.shift();
+        this.dropped++;
+        break;
+      }
+      await new Promise<void>((resolve) => (this.space = resolve));
+    }
+    if (this.detached) return;
+
+    this.queue.push(frame);
+    this.signal('wake');
+  }
+
+  /** Let the queue drain, then end the sink */
+  close(): Promise<void> {
+    this.ending = true;
+    this.signal('wake');
+    return this.done;
+  }
+
+  abort(reason?: unknown): void {
+    if (this.detached) return;
+    this.detach();
+    this.sink.abort(reason);
+  }
+
+  private async run(): Promise<void> {
+    try {
+      while (!this.detached) {
+        const frame = this.queue.shift();
+        if (!frame) {
+          if (this.ending) break;
+          await new Promise<void>((resolve) => (this.wake = resolve));
+          continue;
+        }
+        this.signal('space');
+        await this.sink.write(frame);
+      }
+      if (!this.detached) await this.sink.end();
+    } catch (error) {
+      console.error(`❌ Audio sink "${this.sink.name}" failed, detaching it:`, error);
+      this.abort(error);
+    }
+
+    if (this.dropped > 0) {
+      console.warn(`⚠️  Audio sink "${this.sink.name}" dropped ${this.dropped} frame(s) - too slow to keep up`);
+    }
+  }
+
+  private detach(): void {
+    this.detached = true;
+    this.queue = [];
+    this.signal('wake');
+    this.signal('space');
+  }
+
+  private signal(which: 'wake' | 'space'): void {
+    const resolve = this[which];
+    this[which] = undefined;
+    resolve?.();
+  }
+}
+
+export class AudioFanout {
+  private pumps: SinkPump[] = [];
+
+  add(sink: AudioSink, options: SinkOptions = {}): this {
+    this.pumps.push(new SinkPump(sink, options.overflow ?? 'block', options.maxQueuedFrames ?? 50));
+    return this;
+  }
+
+  get sinks(): string[] {
+    return this.pumps.map((pump) => pump.sink.name);
+  }
+
+  /** Resolves once every 'block' sink has room for the frame */
+  async write(frame: AudioFrame): Promise<void> {
+    await Promise.all(this.pumps.map((pump) => pump.offer(frame)));
+  }
+
+  /** Resolves once every sink has drained and ended */
+  async end(): Promise<void> {
+    await Promise.all(this.pumps.map((pump) => pump.close()));
+  }
+
+  abort(reason?: unknown): void {
+    for (const pump of this.pumps) pump.abort(reason);
+  }
+}
+
+// ============================================================================
+// TTSNODE INTEGRATION
+// ============================================================================
+
+/**
+ * Room sink - frames go out through the stream ttsNode returns, so the
+ * session plays them on the agent's audio track. Backpressure comes from
+ * the session pulling frames as it plays them.
+ */
+class RoomSink implements AudioSink {
+  readonly name = 'room';
+  private pulled?: () => void;
+  private closed = false;
+
+  constructor(private controller: ReadableStreamDefaultController<AudioFrame>) {}
+
+  /** Called from the stream's pull() */
+  notifyPull(): void {
+    const resolve = this.pulled;
+    this.pulled = undefined;
+    resolve?.();
+  }
+
+  async write(frame: AudioFrame): Promise<void> {
+    while (!this.closed && (this.controller.desiredSize ?? 0) <= 0) {
+      await new Promise<void>((resolve) => (this.pulled = resolve));
+    }
+    if (!this.closed) this.controller.enqueue(frame);
+  }
+
+  end(): void {}  // fanOutAudioStream closes the stream itself
+
+  abort(): void {
+    this.closed = true;
+    this.notifyPull();
+  }
+}
+
+export type SinkEntry = { sink: AudioSink } & SinkOptions;
+
+export interface FanOutOptions {
+  /** Also play the audio in the room - frames pass through the returned stream */
+  room?: boolean;
+  sinks?: SinkEntry[];
+  /** Checked per frame - return true to stop reading TTS early (e.g. after barge-in) */
+  shouldStop?: () => boolean;
+}
+
+/**
+ * Drive a ttsNode's audio through an AudioFanout. Returns the stream the
+ * ttsNode should hand back to the session: it carries frames only when
+ * `room` is set, and is empty otherwise (audio went elsewhere).
+ */
+export function fanOutAudioStream(
+  source: ReadableStream<AudioFrame>,
+  options: FanOutOptions,
+): ReadableStream<AudioFrame> {
+  const reader = source.getReader();
+  const fanout = new AudioFanout();
+  let roomSink: RoomSink | undefined;
+  let cancelled = false;
+
+  const forward = async (controller: ReadableStreamDefaultController<AudioFrame>) => {
+    try {
+      while (!cancelled) {
+        const { done, value: frame } = await reader.read();
+        if (done) break;
+        if (options.shouldStop?.()) {
+          // Stop the TTS itself, not just our reading of it
+          await reader.cancel().catch(() => {});
+          break;
+        }
+        await fanout.write(frame);
+      }
+      if (cancelled) return;
+      await fanout.end();
+      controller.close();
+    } catch (error) {
+      fanout.abort(error);
+      if (!cancelled) controller.error(error);
+    } finally {
+      reader.releaseLock();
+    }
+  };
+
+  return new ReadableStream<AudioFrame>({
+    start(controller) {
+      if (options.room) fanout.add((roomSink = new RoomSink(controller)));
+      for (const { sink, ...sinkOptions } of options.sinks ?? []) fanout.add(sink, sinkOptions);
+
+      // Not awaited: start() has to return before the session will pull
+      void forward(controller);
+    },
+    pull() {
+      roomSink?.notifyPull();
+    },
+    cancel(reason) {
+      // Session interrupted this speech - stop every sink, stop reading TTS
+      cancelled = true;
+      fanout.abort(reason);
+      void reader.cancel(reason).catch(() => {});
+    },
+  });
+}
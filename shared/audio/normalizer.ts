@@ -0,0 +1,62 @@
+/**
+ * PcmNormalizer - Whatever the TTS plugin emits → the format the sink expects
+ *
+ * ttsNode interceptors used to assume ElevenLabs' 22.05kHz mono. Swap the
+ * TTS model or plugin and the avatar plays at the wrong pitch and speed.
+ * This reads sampleRate/channels off every AudioFrame, resamples and
+ * downmixes to mono at the target rate, and warns if the format changes
+ * partway through a stream.
+ */
+
+import { StreamingResampler, type PcmFrame } from './resampler.js';
+
+export interface PcmFormat {
+  sampleRate: number;
+  channels: number;
+}
+
+export const describeFormat = ({ sampleRate, channels }: PcmFormat) =>
+  `${sampleRate}Hz ${channels === 1 ? 'mono' : `${channels}ch`}`;
+
+export class PcmNormalizer {
+  private resampler: StreamingResampler;
+  private _format: PcmFormat | null = null;
+
+  constructor(
+    readonly outputRate: number,
+    private label = 'TTS',
+  ) {
+    this.resampler = new StreamingResampler(outputRate);
+  }
+
+  /** Format of the input stream as first detected (null before any frame) */
+  get format(): PcmFormat | null {
+    return this._format;
+  }
+
+  /** Mono 16-bit PCM at outputRate for this frame (may be empty) */
+  push(frame: PcmFrame): Int16Array {
+    const format = { sampleRate: frame.sampleRate, channels: frame.channels };
+
+    if (!this._format) {
+      this._format = format;
+      const target = describeFormat({ sampleRate: this.outputRate, channels: 1 });
+      const note = format.sampleRate === this.outputRate && format.channels === 1 ? ' (passthrough)' : '';
+      console.log(`🎚️  ${this.label} audio: ${describeFormat(format)} → ${target}${note}`);
+    } else if (format.sampleRate !== this._format.sampleRate || format.channels !== this._format.channels) {
+      console.warn(
+        `⚠️  ${this.label} audio format changed mid-stream: ` +
+        `${describeFormat(this._format)} → ${describeFormat(format)}`,
+      );
+      this._format = format;
+    }
+
+    // The resampler flushes and reconfigures itself on a rate change
+    return this.resampler.push(frame);
+  }
+
+  /** End of stream - returns the resampler's remaining tail */
+  flush(): Int16Array {
+    return this.resampler.flush();
+  }
+}
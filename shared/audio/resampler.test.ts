@@ -0,0 +1,95 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { downmix, StreamingResampler, type PcmFrame } from './resampler.js';
+
+const OUTPUT_RATE = 24000;
+const INPUT_RATES = [8000, 16000, 22050, 44100, 48000];
+
+function sine(rate: number, hz: number, samples: number, amplitude = 10000): Int16Array {
+  const out = new Int16Array(samples);
+  for (let i = 0; i < samples; i++) out[i] = Math.round(amplitude * Math.sin((2 * Math.PI * hz * i) / rate));
+  return out;
+}
+
+function frame(data: Int16Array, sampleRate: number, channels = 1): PcmFrame {
+  return { data, sampleRate, channels } as PcmFrame;
+}
+
+/** Push the input in chunks of the given sizes (cycled), then flush */
+function resample(input: Int16Array, rate: number, chunkSizes = [input.length], channels = 1): Int16Array {
+  const resampler = new StreamingResampler(OUTPUT_RATE);
+  const parts: Int16Array[] = [];
+  for (let offset = 0, i = 0; offset < input.length; i++) {
+    const size = chunkSizes[i % chunkSizes.length] * channels;
+    parts.push(resampler.push(frame(input.subarray(offset, offset + size), rate, channels)));
+    offset += size;
+  }
+  parts.push(resampler.flush());
+
+  const out = new Int16Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+function rms(samples: Int16Array): number {
+  let sum = 0;
+  for (const s of samples) sum += s * s;
+  return Math.sqrt(sum / samples.length);
+}
+
+describe('StreamingResampler', () => {
+  for (const rate of INPUT_RATES) {
+    it(`${rate} Hz → 24 kHz gives exactly ceil(n × 24000 / ${rate}) samples`, () => {
+      for (const n of [rate, rate + 1, 1001, 1]) {
+        const out = resample(sine(rate, 440, n), rate);
+        assert.equal(out.length, Math.ceil((n * OUTPUT_RATE) / rate), `${n} input samples`);
+      }
+    });
+
+    it(`${rate} Hz → 24 kHz is the same fed whole or in chunks`, () => {
+      const input = sine(rate, 440, Math.round(rate * 0.3));
+      const whole = resample(input, rate);
+      for (const chunks of [[1], [7, 160, 3], [441], [rate / 100]]) {
+        assert.deepEqual(resample(input, rate, chunks), whole, `chunks of ${chunks.join(', ')}`);
+      }
+    });
+  }
+
+  it('downmixes stereo to the mean of the channels', () => {
+    assert.deepEqual(downmix(Int16Array.from([100, 300, -200, 0]), 2), Float32Array.from([200, -100]));
+
+    const rate = 48000;
+    const left = sine(rate, 440, 4800);
+    const same = new Int16Array(left.length * 2);
+    const opposite = new Int16Array(left.length * 2);
+    for (let i = 0; i < left.length; i++) {
+      same[2 * i] = same[2 * i + 1] = left[i];
+      opposite[2 * i] = left[i];
+      opposite[2 * i + 1] = -left[i];
+    }
+
+    const mono = resample(left, rate);
+    assert.deepEqual(resample(same, rate, [480], 2), mono);
+    assert.equal(rms(resample(opposite, rate, [480], 2)), 0);
+  });
+
+  it('suppresses content above the output Nyquist rate and keeps the passband', () => {
+    const rate = 48000;
+    const amplitude = 10000;
+    // Skip the filter's ramp-in and ramp-out at the edges
+    const middle = (out: Int16Array) => out.subarray(OUTPUT_RATE / 10, out.length - OUTPUT_RATE / 10);
+
+    const passed = rms(middle(resample(sine(rate, 1000, rate, amplitude), rate)));
+    assert.ok(Math.abs(passed - amplitude / Math.SQRT2) < amplitude * 0.02, `1 kHz RMS ${passed.toFixed(0)}`);
+
+    for (const hz of [13000, 16000, 20000]) {
+      const leaked = rms(middle(resample(sine(rate, hz, rate, amplitude), rate)));
+      // At least 40 dB down
+      assert.ok(leaked < (amplitude / Math.SQRT2) * 0.01, `${hz} Hz leaked RMS ${leaked.toFixed(1)}`);
+    }
+  });
+});
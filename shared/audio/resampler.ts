@@ -0,0 +1,230 @@
+/**
+ * StreamingResampler - Any-rate PCM → fixed output rate, frame by frame
+ *
+ * Replaces the three resamplers that used to live in the agents:
+ * - resample22To24 (slot machine) hardcoded 22.05kHz and restarted every
+ *   2400-sample chunk, so every chunk edge clicked
+ * - AudioResampler (bad attempt) kept no state between frames
+ * - LiveAvatarForwarder dropped every 2nd sample with no anti-alias filter
+ *
+ * This one is a windowed-sinc interpolator. Input history is carried across
+ * push() calls, so feeding a stream in any chunk sizes gives the same output
+ * as feeding it in one go. The low-pass cutoff follows the lower of the two
+ * Nyquist rates, so downsampling doesn't alias. Multi-channel input is
+ * downmixed to mono first.
+ */
+
+import type { AudioFrame } from '@livekit/rtc-node';
+
+export type PcmFrame = Pick<AudioFrame, 'data' | 'sampleRate' | 'channels'>;
+
+export interface StreamingResamplerOptions {
+  /** Filter half-length in zero crossings - higher is sharper and slower */
+  zeroCrossings?: number;
+  /** Cutoff as a fraction of the lower Nyquist rate, leaves room for the transition band */
+  rolloff?: number;
+}
+
+// Kernel table resolution (entries per input sample), linearly interpolated
+const TABLE_RESOLUTION = 256;
+
+export class StreamingResampler {
+  private inputRate = 0;
+  private step = 1;         // Input samples per output sample
+  private halfWidth = 0;    // Kernel half-width in input samples
+  private table: Float32Array = new Float32Array(0);
+
+  private history: Float32Array = new Float32Array(0);
+  private historyLength = 0;
+  private historyStart = 0; // Input sample index of history[0] (negative during pre-roll)
+  private received = 0;     // Input samples pushed since configure()
+  private emitted = 0;      // Output samples produced since configure()
+
+  private readonly zeroCrossings: number;
+  private readonly rolloff: number;
+
+  constructor(
+    readonly outputRate: number,
+    options: StreamingResamplerOptions = {},
+  ) {
+    this.zeroCrossings = options.zeroCrossings ?? 16;
+    this.rolloff = options.rolloff ?? 0.95;
+  }
+
+  /** Sample rate the filter is currently configured for (0 before the first frame) */
+  get currentInputRate(): number {
+    return this.inputRate;
+  }
+
+  /**
+   * Resample one frame. Returns mono 16-bit PCM at outputRate - possibly
+   * empty, since the filter needs a few samples of look-ahead.
+   *
+   * A change in input rate flushes the old filter and starts a new one.
+   */
+  push(frame: PcmFrame): Int16Array {
+    const mono = downmix(frame.data, frame.channels);
+
+    if (frame.sampleRate !== this.inputRate) {
+      const tail = this.inputRate ? this.flush() : new Int16Array(0);
+      this.configure(frame.sampleRate);
+      return concat(tail, this.process(mono));
+    }
+    return this.process(mono);
+  }
+
+  /** Drain the filter's look-ahead (end of stream) and reset */
+  flush(): Int16Array {
+    if (!this.inputRate) return new Int16Array(0);
+
+    const out = this.inputRate === this.outputRate
+      ? new Int16Array(0)
+      : this.process(new Float32Array(0), true);
+
+    this.configure(this.inputRate);
+    return out;
+  }
+
+  /** Forget all history without emitting anything (e.g. on interruption) */
+  reset(): void {
+    if (this.inputRate) this.configure(this.inputRate);
+  }
+
+  private configure(inputRate: number): void {
+    this.inputRate = inputRate;
+    this.step = inputRate / this.outputRate;
+
+    // Cutoff relative to the input Nyquist rate
+    const cutoff = Math.min(1, this.outputRate / inputRate) * this.rolloff;
+    this.halfWidth = this.zeroCrossings / cutoff;
+    this.table = buildKernel(cutoff, this.halfWidth);
+
+    // Pre-roll with silence so the first output sample is centered on input 0
+    const preroll = Math.ceil(this.halfWidth);
+    this.history = new Float32Array(preroll + 4096);
+    this.historyLength = preroll;
+    this.historyStart = -preroll;
+    this.received = 0;
+    this.emitted = 0;
+  }
+
+  /** Input position of output sample n - computed, not accumulated, so chunking can't drift it */
+  private positionOf(n: number): number {
+    return (n * this.inputRate) / this.outputRate;
+  }
+
+  private process(input: Float32Array, draining = false): Int16Array {
+    if (this.inputRate === this.outputRate) {
+      return toInt16(input);
+    }
+
+    this.append(input);
+    this.received += input.length;
+
+    // Normally each output needs halfWidth samples of look-ahead. When
+    // draining, missing look-ahead reads as silence and we stop at the
+    // last real input sample.
+    const width = this.halfWidth;
+    const history = this.history;
+    const table = this.table;
+    const ready = (n: number) => {
+      const t = this.positionOf(n);
+      return draining ? t < this.received : t + width <= this.received - 1;
+    };
+
+    let count = 0;
+    while (ready(this.emitted + count)) count++;
+    const out = new Int16Array(count);
+
+    for (let n = 0; n < count; n++) {
+      const local = this.positionOf(this.emitted + n) - this.historyStart;
+      const first = Math.max(0, Math.ceil(local - width));
+      const last = Math.min(this.historyLength - 1, Math.floor(local + width));
+
+      let acc = 0;
+      for (let k = first; k <= last; k++) {
+        const x = Math.abs(local - k) * TABLE_RESOLUTION;
+        const i = x | 0;
+        const frac = x - i;
+        acc += history[k] * (table[i] + (table[i + 1] - table[i]) * frac);
+      }
+      out[n] = clamp16(acc);
+    }
+    this.emitted += count;
+
+    // Drop history the next output sample no longer needs
+    const keepFrom = Math.floor(this.positionOf(this.emitted) - width) - 1 - this.historyStart;
+    if (keepFrom > 0) {
+      history.copyWithin(0, keepFrom, this.historyLength);
+      this.historyLength -= keepFrom;
+      this.historyStart += keepFrom;
+    }
+
+    return out;
+  }
+
+  private append(input: Float32Array): void {
+    const needed = this.historyLength + input.length;
+    if (needed > this.history.length) {
+      const grown = new Float32Array(Math.max(needed, this.history.length * 2));
+      grown.set(this.history.subarray(0, this.historyLength));
+      this.history = grown;
+    }
+    this.history.set(input, this.historyLength);
+    this.historyLength = needed;
+  }
+}
+
+/**
+ * Blackman-windowed sinc, sampled TABLE_RESOLUTION times per input sample
+ * over [0, halfWidth]. Scaled by cutoff so passband gain is 1.
+ */
+function buildKernel(cutoff: number, halfWidth: number): Float32Array {
+  const size = Math.ceil(halfWidth * TABLE_RESOLUTION) + 2;
+  const table = new Float32Array(size);
+  for (let i = 0; i < size; i++) {
+    const x = i / TABLE_RESOLUTION;
+    if (x >= halfWidth) break;
+    const arg = Math.PI * cutoff * x;
+    const sinc = x === 0 ? 1 : Math.sin(arg) / arg;
+    const w = x / halfWidth;
+    const window = 0.42 + 0.5 * Math.cos(Math.PI * w) + 0.08 * Math.cos(2 * Math.PI * w);
+    table[i] = cutoff * sinc * window;
+  }
+  return table;
+}
+
+/** Interleaved Int16 → mono Float32 (still in Int16 range) */
+export function downmix(data: Int16Array, channels: number): Float32Array {
+  const frames = Math.floor(data.length / Math.max(1, channels));
+  const mono = new Float32Array(frames);
+  if (channels <= 1) {
+    mono.set(data.subarray(0, frames));
+    return mono;
+  }
+  for (let i = 0; i < frames; i++) {
+    let sum = 0;
+    for (let c = 0; c < channels; c++) sum += data[i * channels + c];
+    mono[i] = sum / channels;
+  }
+  return mono;
+}
+
+function clamp16(value: number): number {
+  return value > 32767 ? 32767 : value < -32768 ? -32768 : Math.round(value);
+}
+
+function toInt16(samples: Float32Array): Int16Array {
+  const out = new Int16Array(samples.length);
+  for (let i = 0; i < samples.length; i++) out[i] = clamp16(samples[i]);
+  return out;
+}
+
+function concat(a: Int16Array, b: Int16Array): Int16Array {
+  if (a.length === 0) return b;
+  if (b.length === 0) return a;
+  const out = new Int16Array(a.length + b.length);
+  out.set(a);
+  out.set(b, a.length);
+  return out;
+}
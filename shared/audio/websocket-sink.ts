@@ -0,0 +1,95 @@
+/**
+ * WebSocketSink - TTS audio to any WebSocket in LiveAvatar message format
+ *
+ * Used for the debug server (debug/tts-interceptor/debug-server.js), which
+ * expects the same `agent.speak_started` / `agent.speak` / `agent.speak_end`
+ * messages as LiveAvatar at 24kHz mono. Not paced and not serialized - for
+ * the real avatar use LiveAvatarSink.
+ *
+ * Backpressure: if the socket has more than maxBufferedBytes waiting to go
+ * out, chunks are dropped (and counted) rather than piling up in memory.
+ */
+
+import crypto from 'crypto';
+import type { AudioFrame } from '@livekit/rtc-node';
+import WebSocket from 'ws';
+import type { AudioSink } from './fanout.js';
+import { PcmNormalizer } from './normalizer.js';
+import { DEFAULT_CHUNK_MS, PcmChunker } from './chunker.js';
+
+export const DEBUG_AUDIO_WS_URL = process.env.DEBUG_AUDIO_WS_URL || 'ws://localhost:8889';
+
+const OUTPUT_SAMPLE_RATE = 24000;
+
+export interface WebSocketSinkOptions {
+  name?: string;
+  chunkMs?: number;
+  maxBufferedBytes?: number;
+}
+
+/** Open a WebSocket and resolve once it is connected */
+export function openWebSocket(url: string): Promise<WebSocket> {
+  return new Promise((resolve, reject) => {
+    const ws = new WebSocket(url);
+    ws.once('open', () => resolve(ws));
+    ws.once('error', reject);
+  });
+}
+
+export class WebSocketSink implements AudioSink {
+  readonly name: string;
+  readonly eventId = crypto.randomUUID();
+  private normalizer = new PcmNormalizer(OUTPUT_SAMPLE_RATE);
+  private chunker: PcmChunker;
+  private maxBufferedBytes: number;
+  private started = false;
+  private dropped = 0;
+
+  constructor(private ws: WebSocket, options: WebSocketSinkOptions = {}) {
+    this.name = options.name ?? 'debug';
+    this.chunker = new PcmChunker(OUTPUT_SAMPLE_RATE, options.chunkMs ?? DEFAULT_CHUNK_MS);
+    this.maxBufferedBytes = options.maxBufferedBytes ?? 1024 * 1024;
+  }
+
+  write(frame: AudioFrame): void {
+    this.chunker.push(this.normalizer.push(frame)).forEach((chunk) => this.sendChunk(chunk));
+  }
+
+  end(): void {
+    this.chunker.push(this.normalizer.flush()).forEach((chunk) => this.sendChunk(chunk));
+    const rest = this.chunker.flush();
+    if (rest) this.sendChunk(rest);
+
+    if (this.started) this.send({ type: 'agent.speak_end', event_id: this.eventId });
+    if (this.dropped > 0) {
+      console.warn(`⚠️  ${this.name}: dropped ${this.dropped} chunk(s), socket couldn't keep up`);
+    }
+  }
+
+  abort(): void {
+    this.chunker.reset();
+    if (this.started) this.send({ type: 'agent.interrupt', event_id: this.eventId });
+  }
+
+  private sendChunk(chunk: Int16Array): void {
+    if (this.ws.bufferedAmount > this.maxBufferedBytes) {
+      this.dropped++;
+      return;
+    }
+    if (!this.started) {
+      this.started = true;
+      this.send({ type: 'agent.speak_started', event_id: this.eventId });
+    }
+    this.send({
+      type: 'agent.speak',
+      event_id: this.eventId,
+      audio: Buffer.from(chunk.buffer, chunk.byteOffset, chunk.byteLength).toString('base64'),
+    });
+  }
+
+  private send(message: object): void {
+    if (this.ws.readyState === WebSocket.OPEN) {
+      this.ws.send(JSON.stringify(message));
+    }
+  }
+}
@@ -0,0 +1,161 @@
+/**
+ * Job config - Per-room persona from dispatch metadata
+ *
+ * Every agent has a built-in persona (instructions, tools, greeting). A
+ * dispatch can override any part of it with JSON metadata, so one running
+ * worker serves different personas per room:
+ *
+ *   {
+ *     "avatar": "Mock*",                          // ID, name or pattern (LIVE_AVATAR_ID)
+ *     "instructions": "You are a pirate.",
+ *     "greeting": "Ahoy!",                        // "" for none
+ *     "tools": ["searchFlights", "getWeather"],   // Subset of the agent's tools, [] for none
+ *     "llm": { "model": "gpt-4o" },               // OPENAI_MODEL
+ *     "tts": { "voiceId": "...", "model": "..." } // ELEVEN_LABS_VOICE_ID, ELEVEN_LABS_MODEL
+ *   }
+ *
+ * Whatever the metadata leaves out comes from the env var in the comment,
+ * then from the agent's own persona. Empty metadata (auto-dispatch) is the
+ * defaults; anything else has to match the schema, unknown keys included -
+ * a typo'd persona fails the job instead of quietly using the default one.
+ */
+
+import type { llm } from '@livekit/agents';
+import type * as elevenlabs from '@livekit/agents-plugin-elevenlabs';
+import { z } from 'zod';
+
+/** Rachel - what every agent in this repo spoke with before voices were configurable */
+export const DEFAULT_VOICE_ID = '21m00Tcm4TlvDq8ikWAM';
+
+const text = z.string().trim().min(1);
+
+export const JobMetadataSchema = z.object({
+  avatar: text.optional(),
+  instructions: text.optional(),
+  greeting: z.string().trim().optional(),
+  tools: z.array(text).optional(),
+  llm: z.object({ model: text.optional() }).strict().optional(),
+  tts: z.object({ voiceId: text.optional(), model: text.optional() }).strict().optional(),
+}).strict();
+
+export type JobMetadata = z.infer<typeof JobMetadataSchema>;
+
+/** What an agent does when the metadata doesn't say otherwise */
+export interface AgentPersona {
+  instructions: string;
+  tools?: llm.ToolContext;   // Every tool the agent has - metadata "tools" picks from these
+  greeting?: string;
+  llmModel?: string;         // Plugin default if unset
+  ttsModel?: string;         // Plugin default if unset
+  voiceId?: string;          // Defaults to DEFAULT_VOICE_ID
+}
+
+export interface JobConfig {
+  avatar: string | undefined;                // undefined → LIVE_AVATAR_ID
+  instructions: string;
+  tools: llm.ToolContext;
+  greeting: string | undefined;
+  llm: { model?: string };                   // openai.LLM options - unset keys are left out so the plugin defaults apply
+  tts: { voiceId: string; model?: string };  // elevenLabsTTSOptions() turns this into elevenlabs.TTS options
+  overrides: string[];                       // Top-level metadata keys that were set, for logging
+}
+
+export class JobConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'JobConfigError';
+  }
+}
+
+/** Parses and validates dispatch metadata - '' is {}; throws JobConfigError listing every problem */
+export function parseJobMetadata(metadata: string | undefined): JobMetadata {
+  if (!metadata?.trim()) return {};
+
+  let json: unknown;
+  try {
+    json = JSON.parse(metadata);
+  } catch {
+    throw new JobConfigError(`Job metadata is not JSON: ${metadata}`);
+  }
+
+  const result = JobMetadataSchema.safeParse(json);
+  if (!result.success) {
+    const problems = result.error.issues.map((issue) =>
+      `${issue.path.length > 0 ? issue.path.join('.') : '(metadata)'}: ${issue.message}`);
+    throw new JobConfigError(`Invalid job metadata:\n  - ${problems.join('\n  - ')}`);
+  }
+  return result.data;
+}
+
+/** The job's config: metadata, then env, then the agent's persona */
+export function jobConfigFromMetadata(metadata: string | undefined, persona: AgentPersona): JobConfig {
+  const parsed = parseJobMetadata(metadata);
+  const env = (name: string) => process.env[name]?.trim() || undefined;
+
+  return {
+    avatar: parsed.avatar,
+    instructions: parsed.instructions ?? persona.instructions,
+    tools: pickTools(persona.tools ?? {}, parsed.tools),
+    greeting: (parsed.greeting ?? persona.greeting) || undefined,
+    llm: withoutUnset({ model: parsed.llm?.model ?? env('OPENAI_MODEL') ?? persona.llmModel }),
+    tts: withoutUnset({
+      voiceId: parsed.tts?.voiceId ?? env('ELEVEN_LABS_VOICE_ID') ?? persona.voiceId ?? DEFAULT_VOICE_ID,
+      model: parsed.tts?.model ?? env('ELEVEN_LABS_MODEL') ?? persona.ttsModel,
+    }),
+    overrides: Object.keys(parsed),
+  };
+}
+
+/** JobConfig.tts as elevenlabs.TTS options - the plugin takes voice: { id, ... } and modelID */
+export function elevenLabsTTSOptions(tts: JobConfig['tts']): ElevenLabsTTSOptions {
+  return {
+    // Only the id reaches ElevenLabs - name and category just describe listVoices() results
+    voice: { id: tts.voiceId, name: '', category: '' },
+    ...(tts.model && { modelID: tts.model }),
+  };
+}
+
+type ElevenLabsTTSOptions = NonNullable<ConstructorParameters<typeof elevenlabs.TTS>[0]>;
+
+/**
+ * JobConfig as LiveKit inference gateway strings ('openai/gpt-4o-mini',
+ * 'elevenlabs/<model>:<voice>') for agents that don't build plugins - the
+ * gateway needs a model, so unset ones fall back to what those agents used
+ */
+export function inferenceModels(config: JobConfig): { llm: string; tts: string } {
+  return {
+    llm: `openai/${config.llm.model ?? 'gpt-4o-mini'}`,
+    tts: `elevenlabs/${config.tts.model ?? 'eleven_turbo_v2'}:${config.tts.voiceId}`,
+  };
+}
+
+// The plugins spread their options over their defaults - an undefined key would clear one
+function withoutUnset<T extends object>(options: T): T {
+  return Object.fromEntries(Object.entries(options).filter(([, value]) => value !== undefined)) as T;
+}
+
+function pickTools(available: llm.ToolContext, names: string[] | undefined): llm.ToolContext {
+  if (!names) return available;
+
+  const unknown = names.filter((name) => !(name in available));
+  if (unknown.length > 0) {
+    const known = Object.keys(available);
+    throw new JobConfigError(
+      `Unknown tool${unknown.length === 1 ? '' : 's'} in job metadata: ${unknown.join(', ')} ` +
+      `(this agent has ${known.length > 0 ? known.join(', ') : 'no tools'})`,
+    );
+  }
+  return Object.fromEntries(names.map((name) => [name, available[name]]));
+}
+
+/** One line for the worker log */
+export function describeJobConfig(config: JobConfig): string {
+  const tools = Object.keys(config.tools);
+  return [
+    `llm ${config.llm.model ?? 'default'}`,
+    `voice ${config.tts.voiceId}${config.tts.model ? ` (${config.tts.model})` : ''}`,
+    `tools ${tools.length > 0 ? tools.join(', ') : 'none'}`,
+    config.avatar ? `avatar "${config.avatar}"` : undefined,
+    config.overrides.length > 0 ? `from metadata: ${config.overrides.join(', ')}` : 'defaults',
+  ].filter(Boolean).join(' · ');
+}
@@ -0,0 +1,65 @@
+/**
+ * mirrorAvatarState - Drive AgentSession's agent state from the avatar
+ *
+ * The session moves to `speaking` / `listening` based on the frames its
+ * audio output plays. With audio diverted to LiveAvatar that's wrong both
+ * ways: the room stream is empty, so the session never reports `speaking`,
+ * and it goes back to `listening` as soon as TTS finishes while the avatar
+ * is still talking.
+ *
+ * While the avatar speaks (`agent.speak_started` until `agent.speak_ended`
+ * with nothing left queued, or the scheduler giving up on it) the agent
+ * state is held at `speaking`. Transitions the session asks for meanwhile
+ * are deferred, and the latest one is applied once the avatar stops - so
+ * AgentStateChanged listeners see what the user sees.
+ */
+
+import type { voice } from '@livekit/agents';
+import type { LiveAvatarEvents } from './events.js';
+import type { LiveAvatarSpeechScheduler } from './speech-scheduler.js';
+
+type AgentState = voice.AgentSession['agentState'];
+
+/** Returns a function that detaches every listener and restores the session */
+export function mirrorAvatarState(
+  session: voice.AgentSession,
+  events: LiveAvatarEvents,
+  speech: LiveAvatarSpeechScheduler,
+): () => void {
+  // The session has no public setter - wrap the one its activity calls
+  const updateAgentState = session._updateAgentState;
+  const update = (state: AgentState) => updateAgentState.call(session, state);
+
+  let avatarSpeaking = false;
+  let sessionState: AgentState = session.agentState;
+
+  session._updateAgentState = (state: AgentState) => {
+    sessionState = state;
+    if (!avatarSpeaking) update(state);
+  };
+
+  const onSpeakStarted = () => {
+    avatarSpeaking = true;
+    update('speaking');
+  };
+
+  // Next utterance already queued? Stay speaking instead of flickering to listening.
+  const settle = () => {
+    if (!avatarSpeaking || speech.state !== 'idle' || speech.queued > 0) return;
+    avatarSpeaking = false;
+    update(sessionState);
+  };
+
+  events.on('agent.speak_started', onSpeakStarted);
+  events.on('agent.speak_ended', settle);
+  // Interrupts, drain timeouts and a dead avatar end speech without speak_ended
+  speech.on('state_changed', settle);
+
+  return () => {
+    events.off('agent.speak_started', onSpeakStarted);
+    events.off('agent.speak_ended', settle);
+    speech.off('state_changed', settle);
+    session._updateAgentState = updateAgentState;
+    if (avatarSpeaking) update(sessionState);
+  };
+}
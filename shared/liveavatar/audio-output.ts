@@ -0,0 +1,166 @@
+/**
+ * LiveAvatarAudioOutput - AgentSession audio output that plays on the avatar
+ *
+ * The alternative to wrapping ttsNode(): set as `session.output.audio`, the
+ * session hands it TTS frames like any other sink and waits for it to
+ * report playback, so interruptions, playout tracking, agent state and the
+ * truncated transcript of an interrupted reply all work natively.
+ *
+ * - every segment (captureFrame() ... flush()) is its own scheduler
+ *   utterance with a fresh event_id
+ * - a segment finishes when LiveAvatar reports `agent.speak_ended` for it
+ *   (or the scheduler's drain timeout gives up on it)
+ * - clearBuffer() and any other scheduler interrupt (failover, stop) finish
+ *   every pending segment as interrupted, at the position the avatar reached
+ * - segments that start while the avatar is offline go to `fallback`
+ *   (usually the room output RoomIO set up) and finish when it says so
+ */
+
+import { voice } from '@livekit/agents';
+import type { AudioFrame } from '@livekit/rtc-node';
+import { DEFAULT_CHUNK_MS } from '../audio/chunker.js';
+import { LiveAvatarSink } from './avatar-sink.js';
+import {
+  LIVE_AVATAR_SAMPLE_RATE,
+  type LiveAvatarSpeechScheduler,
+  type Utterance,
+  type UtteranceDoneEvent,
+} from './speech-scheduler.js';
+import type { AvatarTranscriptSync } from './transcript-sync.js';
+
+/** The session's audio sink type */
+export type AudioOutput = NonNullable<voice.AgentSession['output']['audio']>;
+export type PlaybackFinishedEvent = Parameters<AudioOutput['onPlaybackFinished']>[0];
+
+// voice.AudioOutput isn't exported (agents 1.0.x) - every avatar plugin's output extends it
+const AudioOutputBase = Object.getPrototypeOf(voice.DataStreamAudioOutput) as (
+  abstract new (sampleRate?: number, nextInChain?: AudioOutput) => AudioOutput
+) & { readonly EVENT_PLAYBACK_FINISHED: string };
+
+/**
+ * LIVE_AVATAR_AUDIO_OUTPUT ('on' or 'off', default off) - play through
+ * LiveAvatarAudioOutput instead of wrapping ttsNode()
+ */
+export function audioOutputFromEnv(): boolean {
+  const raw = process.env.LIVE_AVATAR_AUDIO_OUTPUT?.trim();
+  if (!raw) return false;
+  if (raw !== 'on' && raw !== 'off') {
+    throw new Error(`Invalid LIVE_AVATAR_AUDIO_OUTPUT: "${raw}" (expected on or off)`);
+  }
+  return raw === 'on';
+}
+
+export interface LiveAvatarAudioOutputOptions {
+  /** Whether new segments can go to the avatar - checked at the first frame of each */
+  online?: () => boolean;
+  /** Plays segments that start while the avatar is offline (dropped if unset) */
+  fallback?: AudioOutput | null;
+  /** Registered with every segment so captions follow it */
+  transcripts?: AvatarTranscriptSync;
+  chunkMs?: number;
+}
+
+interface Segment {
+  sink: LiveAvatarSink | null;  // null: playing on the fallback (or dropped)
+  finished: boolean;
+}
+
+export class LiveAvatarAudioOutput extends AudioOutputBase {
+  private current: Segment | null = null;
+  // Avatar segments not finished yet, oldest first
+  private playing: Segment[] = [];
+  private online: () => boolean;
+  private fallback: AudioOutput | null;
+  private transcripts?: AvatarTranscriptSync;
+  private chunkMs: number;
+
+  constructor(private speech: LiveAvatarSpeechScheduler, options: LiveAvatarAudioOutputOptions = {}) {
+    // The session resamples to 24kHz before captureFrame(). Not chained to
+    // the fallback - its playback events only count while this is attached.
+    super(LIVE_AVATAR_SAMPLE_RATE);
+    this.online = options.online ?? (() => true);
+    this.fallback = options.fallback ?? null;
+    this.transcripts = options.transcripts;
+    this.chunkMs = options.chunkMs ?? DEFAULT_CHUNK_MS;
+
+    speech.on('utterance_done', this.onUtteranceDone);
+    speech.on('interrupted', this.onInterrupted);
+    this.fallback?.on(AudioOutputBase.EVENT_PLAYBACK_FINISHED, this.onFallbackFinished);
+  }
+
+  async captureFrame(frame: AudioFrame): Promise<void> {
+    await super.captureFrame(frame);
+
+    if (!this.current) {
+      const utterance = this.online() ? this.speech.createUtterance() : null;
+      this.current = {
+        sink: utterance && new LiveAvatarSink(utterance, this.chunkMs),
+        finished: false,
+      };
+      if (utterance) this.playing.push(this.current);
+      this.transcripts?.track(utterance);
+    }
+
+    if (this.current.sink) {
+      this.current.sink.write(frame);
+    } else {
+      await this.fallback?.captureFrame(frame);
+    }
+  }
+
+  /** End of the segment - `agent.speak_end` once it's the avatar's turn */
+  flush(): void {
+    super.flush();
+    const segment = this.current;
+    this.current = null;
+    if (!segment) return;
+
+    if (segment.sink) {
+      segment.sink.end();
+    } else if (this.fallback) {
+      this.fallback.flush();
+    } else {
+      // Avatar was down and there's nowhere else to play it
+      this.finish(segment, { playbackPosition: 0, interrupted: true });
+    }
+  }
+
+  /** Barge-in: stop the avatar and drop everything it hasn't said yet */
+  clearBuffer(): void {
+    if (this.playing.length > 0) this.speech.interrupt();
+    this.fallback?.clearBuffer();
+  }
+
+  /** Stop listening to the scheduler and fallback - call once the session no longer uses this output */
+  close(): void {
+    this.speech.off('utterance_done', this.onUtteranceDone);
+    this.speech.off('interrupted', this.onInterrupted);
+    this.fallback?.off(AudioOutputBase.EVENT_PLAYBACK_FINISHED, this.onFallbackFinished);
+  }
+
+  private onUtteranceDone = ({ eventId, audioMs }: UtteranceDoneEvent) => {
+    const segment = this.playing.find((s) => s.sink!.utterance.eventId === eventId);
+    if (segment) this.finish(segment, { playbackPosition: audioMs / 1000, interrupted: false });
+  };
+
+  private onInterrupted = () => {
+    for (const segment of [...this.playing]) {
+      this.finish(segment, { playbackPosition: playedSeconds(segment.sink!.utterance), interrupted: true });
+    }
+  };
+
+  private onFallbackFinished = (ev: PlaybackFinishedEvent) => this.onPlaybackFinished(ev);
+
+  private finish(segment: Segment, ev: PlaybackFinishedEvent): void {
+    if (segment.finished) return;
+    segment.finished = true;
+    this.playing = this.playing.filter((s) => s !== segment);
+    this.onPlaybackFinished(ev);
+  }
+}
+
+/** How much of an interrupted utterance the avatar got to say */
+function playedSeconds(utterance: Utterance): number {
+  if (!utterance.firstSentAt) return 0;
+  return Math.min(Date.now() - utterance.firstSentAt, utterance.audioMs) / 1000;
+}
@@ -0,0 +1,388 @@
+/**
+ * AvatarSession - Drop-in LiveAvatar for a voice.AgentSession
+ *
+ * Same shape as the avatar plugins (Anam, Bey, Simli, Tavus):
+ *
+ *   const avatar = new liveavatar.AvatarSession();
+ *   await avatar.start(session, ctx.room);
+ *   await session.start({ agent, room: ctx.room });
+ *
+ * Those plugins swap the session's audio output for a data stream to the
+ * avatar worker. LiveAvatar takes audio over its own WebSocket instead, so
+ * this wraps the agent's ttsNode / transcriptionNode (any subclass
+ * overrides still run first) and wires up everything the agents used to
+ * do by hand:
+ * - LiveAvatar session + token + WebSocket, with failover to room audio (failover.ts)
+ * - routing TTS to avatar / room / debug per TTS_OUTPUT (fanout.ts)
+ * - one utterance at a time, paced to real time (speech-scheduler.ts)
+ * - barge-in, agent state and captions following the avatar
+ *   (interruptions.ts, agent-state.ts, transcript-sync.ts)
+ *
+ * Call start() before session.start(): agents passed to session.start() /
+ * updateAgent() get wrapped, and syncTranscription defaults to off.
+ *
+ * The LiveAvatar session is stopped (at most once, within stopTimeoutMs)
+ * when the session closes, the room disconnects, or - inside a job - on
+ * job shutdown and SIGINT/SIGTERM, with a stop reason matching the cause.
+ *
+ * With `audioOutput` (LIVE_AVATAR_AUDIO_OUTPUT=on) TTS audio isn't taken
+ * from ttsNode at all: once the session has started, LiveAvatarAudioOutput
+ * (audio-output.ts) replaces its room audio output and keeps it as the
+ * offline fallback. The session then tracks interruptions, playout and
+ * agent state itself. Avatar only - no room or debug copy.
+ */
+
+import { EventEmitter } from 'events';
+import { getJobContext, voice } from '@livekit/agents';
+import type { AudioFrame, Room } from '@livekit/rtc-node';
+import { DisconnectReason, RoomEvent } from '@livekit/rtc-node';
+import type { ReadableStream } from 'stream/web';
+import type WebSocket from 'ws';
+import { AVATAR_IDENTITY, type StartLiveAvatarSessionOptions } from './session.js';
+import type { LiveAvatarStopReason } from './types.js';
+import {
+  ATTRIBUTE_AVATAR_STATUS,
+  AvatarFailover,
+  connectLiveAvatar,
+  type AvatarStatus,
+  type AvatarStatusChangedEvent,
+} from './failover.js';
+import { socketOptionsFromEnv, type LiveAvatarSocketOptions } from './socket.js';
+import { LiveAvatarEvents } from './events.js';
+import { LiveAvatarSpeechScheduler, leadMsFromEnv } from './speech-scheduler.js';
+import { LiveAvatarSink } from './avatar-sink.js';
+import { AvatarTranscriptSync } from './transcript-sync.js';
+import { forwardInterruptions } from './interruptions.js';
+import { mirrorAvatarState } from './agent-state.js';
+import { LiveAvatarAudioOutput, audioOutputFromEnv } from './audio-output.js';
+import { audioOutputsFromEnv, fanOutAudioStream, type AudioOutputName, type SinkEntry } from '../audio/fanout.js';
+import { DEBUG_AUDIO_WS_URL, WebSocketSink, openWebSocket } from '../audio/websocket-sink.js';
+import { chunkMsFromEnv } from '../audio/chunker.js';
+import { SHUTDOWN_TIMEOUT_MS, settleWithin } from '../shutdown.js';
+
+export interface AvatarSessionOptions extends Omit<StartLiveAvatarSessionOptions, 'roomName' | 'localIdentity'> {
+  /** Where TTS audio goes - defaults to TTS_OUTPUT, then avatar only */
+  outputs?: Iterable<AudioOutputName>;
+  chunkMs?: number;          // Defaults to LIVE_AVATAR_CHUNK_MS
+  leadMs?: number;           // Defaults to LIVE_AVATAR_LEAD_MS
+  socket?: LiveAvatarSocketOptions;  // Defaults to LIVE_AVATAR_WS_OUTAGE
+  retryMs?: number;          // Delay between new-session attempts while offline
+  debugWsUrl?: string;       // Defaults to DEBUG_AUDIO_WS_URL
+  audioOutput?: boolean;     // Play through session.output.audio - defaults to LIVE_AVATAR_AUDIO_OUTPUT
+  stopTimeoutMs?: number;    // Longest stop() waits on /v1/sessions/stop
+}
+
+type SessionStartOptions = Parameters<voice.AgentSession['start']>[0];
+
+export declare interface AvatarSession {
+  on(event: 'status_changed', listener: (ev: AvatarStatusChangedEvent) => void): this;
+  once(event: 'status_changed', listener: (ev: AvatarStatusChangedEvent) => void): this;
+}
+
+export class AvatarSession extends EventEmitter {
+  /** Parsed LiveAvatar server messages - same emitter across LiveAvatar sessions */
+  readonly events = new LiveAvatarEvents();
+  readonly speech: LiveAvatarSpeechScheduler;
+  readonly transcripts: AvatarTranscriptSync;
+  readonly outputs: ReadonlySet<AudioOutputName>;
+
+  private sessionOptions: Omit<StartLiveAvatarSessionOptions, 'roomName' | 'localIdentity'>;
+  private failover: AvatarFailover | null = null;
+  private debugWs: WebSocket | null = null;
+  private chunkMs: number;
+  private audioOutput: boolean;
+  private wrapped = new WeakSet<voice.Agent>();
+  private cleanup: (() => void)[] = [];
+  private stopping: Promise<void> | null = null;
+
+  constructor(private options: AvatarSessionOptions = {}) {
+    super();
+    const {
+      outputs, chunkMs, leadMs, socket, retryMs, debugWsUrl, audioOutput, stopTimeoutMs, ...sessionOptions
+    } = options;
+    this.sessionOptions = sessionOptions;
+    this.outputs = new Set(outputs ?? audioOutputsFromEnv(['avatar']));
+    this.chunkMs = chunkMs ?? chunkMsFromEnv();
+    this.audioOutput = audioOutput ?? audioOutputFromEnv();
+    if (this.audioOutput && (this.outputs.size !== 1 || !this.outputs.has('avatar'))) {
+      throw new Error(`LiveAvatar audio output plays on the avatar only (TTS_OUTPUT=avatar), got: ${[...this.outputs].join(',')}`);
+    }
+
+    // Sends during a WebSocket drop are buffered (or dropped) by the socket
+    this.speech = new LiveAvatarSpeechScheduler((message) => {
+      this.failover?.socket?.send(message);
+    }, { leadMs: leadMs ?? leadMsFromEnv() });
+    this.transcripts = new AvatarTranscriptSync(this.events, this.speech);
+  }
+
+  get status(): AvatarStatus {
+    return this.failover?.status ?? 'offline';
+  }
+
+  get online(): boolean {
+    return this.failover?.online ?? false;
+  }
+
+  get sessionId(): string | null {
+    return this.failover?.sessionId ?? null;
+  }
+
+  /**
+   * Hook into the session and bring the avatar up. Never throws on
+   * LiveAvatar failures - audio falls back to the room until a retry works.
+   */
+  async start(session: voice.AgentSession, room: Room): Promise<void> {
+    this.hookSession(session);
+
+    // Optional copy of every utterance for the debug server (TTS_OUTPUT=...,debug)
+    if (this.outputs.has('debug')) {
+      const url = this.options.debugWsUrl ?? DEBUG_AUDIO_WS_URL;
+      this.debugWs = await openWebSocket(url);
+      console.log(`✅ Connected to debug server: ${url}`);
+    }
+    console.log(`🔀 TTS output: ${[...this.outputs].join(' + ')}`);
+
+    this.speech.on('state_changed', (ev) => {
+      console.log(`🗣️  Avatar speech: ${ev.oldState} → ${ev.newState}`);
+    });
+
+    // Leaving the room disconnects it on job shutdown too
+    const onDisconnected = (reason: DisconnectReason) => {
+      void this.stop(reason === DisconnectReason.CLIENT_INITIATED ? 'AGENT_SHUTDOWN' : 'ROOM_CLOSED');
+    };
+    const onClose = (ev: voice.CloseEvent) => void this.stop(stopReasonForClose(ev.reason));
+    room.once(RoomEvent.Disconnected, onDisconnected);
+    session.once(voice.AgentSessionEventTypes.Close, onClose);
+    this.cleanup.push(() => {
+      room.off(RoomEvent.Disconnected, onDisconnected);
+      session.off(voice.AgentSessionEventTypes.Close, onClose);
+    });
+    this.stopOnJobShutdown();
+
+    if (!this.outputs.has('avatar')) return;
+
+    // Captions find their speech's utterance by speech id
+    this.cleanup.push(this.transcripts.watch(session));
+
+    // Barge-in stops the avatar too; agent state follows the avatar's speech.
+    // LiveAvatarAudioOutput gets both from the session itself.
+    if (!this.audioOutput) {
+      this.cleanup.push(forwardInterruptions(session, this.speech));
+      this.cleanup.push(mirrorAvatarState(session, this.events, this.speech));
+    }
+    this.logServerEvents();
+
+    // LiveAvatar session + WebSocket. If it fails (now or mid-conversation)
+    // TTS falls back to room audio until a retry reconnects.
+    const socketOptions = this.options.socket ?? socketOptionsFromEnv();
+    const failover = new AvatarFailover(() => connectLiveAvatar({
+      ...this.sessionOptions,
+      roomName: room.name!,
+      localIdentity: room.localParticipant?.identity,
+    }, socketOptions), { retryMs: this.options.retryMs });
+    this.failover = failover;
+
+    // New socket on every new LiveAvatar session
+    failover.on('connected', ({ sessionId, socket }) => {
+      socket.on('reconnecting', ({ attempt, delayMs, reason }) => {
+        console.warn(`🔌 LiveAvatar WebSocket ${reason} - reconnect #${attempt} in ${delayMs}ms`);
+      });
+      socket.on('reconnected', ({ downtimeMs, flushed, dropped }) => {
+        console.log(`🔌 LiveAvatar session ${sessionId} resumed after ${downtimeMs}ms (${flushed} buffered, ${dropped} dropped)`);
+      });
+      socket.on('message', (data) => this.events.handle(data));
+    });
+
+    // Let the UI know (participant attribute) and drop audio queued for a dead avatar
+    failover.on('status_changed', (ev) => {
+      const why = ev.reason ? ` (${ev.reason})` : '';
+      console.log(`📺 Avatar ${ev.oldStatus} → ${ev.newStatus}${why}`);
+      if (ev.newStatus === 'offline') {
+        console.log('🔈 Falling back to room audio');
+        this.speech.interrupt();
+      }
+      room.localParticipant?.setAttributes({ [ATTRIBUTE_AVATAR_STATUS]: ev.newStatus })
+        .catch((error) => console.error('⚠️  Failed to publish avatar status:', error));
+      this.emit('status_changed', ev);
+    });
+
+    if (await failover.start()) {
+      console.log(`📺 Avatar should appear in room as "${this.options.avatarIdentity ?? AVATAR_IDENTITY}"`);
+    }
+  }
+
+  /**
+   * Stop the LiveAvatar session and detach from the agent session. Safe to
+   * call twice - the first reason wins. Never throws, and gives up waiting
+   * on LiveAvatar after stopTimeoutMs.
+   */
+  stop(reason: LiveAvatarStopReason = 'USER_CLOSED'): Promise<void> {
+    this.stopping ??= (async () => {
+      // Interrupt first - LiveAvatarAudioOutput finishes its segments on it
+      this.speech.interrupt();
+      for (const undo of this.cleanup.splice(0)) undo();
+      this.debugWs?.close();
+      if (!this.failover) return;
+
+      const sessionId = this.failover.sessionId;
+      console.log(`🛑 Stopping LiveAvatar session ${sessionId ?? '(none active)'} (${reason})`);
+      const stopped = await settleWithin(
+        this.failover.stop(reason),
+        this.options.stopTimeoutMs ?? SHUTDOWN_TIMEOUT_MS,
+        'Stopping LiveAvatar session',
+      );
+      if (stopped) console.log('✅ LiveAvatar session stopped');
+      else if (sessionId) console.warn(`⚠️  LiveAvatar session ${sessionId} may still be running`);
+    })();
+    return this.stopping;
+  }
+
+  // ==========================================================================
+  // AGENT WIRING
+  // ==========================================================================
+
+  /** Inside a job: job shutdown and SIGINT/SIGTERM stop the avatar too */
+  private stopOnJobShutdown(): void {
+    let ctx: ReturnType<typeof getJobContext>;
+    try {
+      ctx = getJobContext();
+    } catch {
+      return;  // Not running as a job (scripts, tests) - leave signals alone
+    }
+
+    // The job process survives signals (the worker shuts jobs down over IPC),
+    // so these only start the stop early - they don't change how it exits
+    const onSignal = (signal: NodeJS.Signals) => {
+      console.log(`🛑 ${signal} received`);
+      void this.stop('AGENT_SHUTDOWN');
+    };
+    process.on('SIGINT', onSignal);
+    process.on('SIGTERM', onSignal);
+    this.cleanup.push(() => {
+      process.off('SIGINT', onSignal);
+      process.off('SIGTERM', onSignal);
+    });
+
+    ctx.addShutdownCallback(() => this.stop('AGENT_SHUTDOWN'));
+  }
+
+  private hookSession(session: voice.AgentSession): void {
+    const start = session.start;
+    const updateAgent = session.updateAgent;
+
+    session.start = async (options: SessionStartOptions) => {
+      this.wrapAgent(options.agent);
+      await start.call(session, {
+        ...options,
+        // The session's synchronizer times captions to room audio - transcriptionNode times them to the avatar
+        outputOptions: { syncTranscription: !this.outputs.has('avatar'), ...options.outputOptions },
+      });
+      // RoomIO sets output.audio during start() - replace it now
+      if (this.audioOutput && !this.stopping) this.attachAudioOutput(session);
+    };
+    session.updateAgent = (agent: voice.Agent) => {
+      this.wrapAgent(agent);
+      updateAgent.call(session, agent);
+    };
+
+    this.cleanup.push(() => {
+      session.start = start;
+      session.updateAgent = updateAgent;
+    });
+  }
+
+  private attachAudioOutput(session: voice.AgentSession): void {
+    const fallback = session.output.audio;
+    const output = new LiveAvatarAudioOutput(this.speech, {
+      online: () => this.online,
+      fallback,
+      transcripts: this.transcripts,
+      chunkMs: this.chunkMs,
+    });
+    session.output.audio = output;
+    console.log('🔈 Session audio output: LiveAvatar (room audio as fallback)');
+
+    this.cleanup.push(() => {
+      output.close();
+      if (session.output.audio === output) session.output.audio = fallback;
+    });
+  }
+
+  private wrapAgent(agent: voice.Agent): void {
+    if (this.wrapped.has(agent)) return;
+    this.wrapped.add(agent);
+
+    const ttsNode = agent.ttsNode;
+    const transcriptionNode = agent.transcriptionNode;
+
+    // LiveAvatarAudioOutput gets the audio from the session instead
+    if (!this.audioOutput) {
+      agent.ttsNode = async (text, modelSettings) => {
+        const audio = await ttsNode.call(agent, text, modelSettings);
+        return audio && this.routeAudio(audio);
+      };
+    }
+
+    // Captions follow the avatar's lips instead of racing ahead of them
+    agent.transcriptionNode = async (text, modelSettings) => {
+      const transcript = await transcriptionNode.call(agent, text, modelSettings);
+      if (!transcript || !this.outputs.has('avatar')) return transcript;
+      return this.transcripts.sync(transcript);
+    };
+  }
+
+  private routeAudio(audio: ReadableStream<AudioFrame>): ReadableStream<AudioFrame> {
+    // Avatar down (or still connecting)? This utterance plays in the room instead
+    const fallback = this.outputs.has('avatar') && !this.online;
+
+    // Queued behind any utterance the avatar is still speaking
+    const utterance = this.outputs.has('avatar') && this.online ? this.speech.createUtterance() : null;
+    if (this.outputs.has('avatar')) this.transcripts.track(utterance);
+
+    const sinks: SinkEntry[] = [];
+    if (utterance) {
+      // Normalized to 24kHz mono, cut into LIVE_AVATAR_CHUNK_MS chunks
+      sinks.push({ sink: new LiveAvatarSink(utterance, this.chunkMs) });
+    }
+    if (this.outputs.has('debug') && this.debugWs) {
+      sinks.push({ sink: new WebSocketSink(this.debugWs, { chunkMs: this.chunkMs }), overflow: 'drop' });
+    }
+
+    // Only frames for the room go through the returned stream - with the
+    // default TTS_OUTPUT=avatar the session gets nothing to play
+    const roomOutput = this.outputs.has('room') || fallback;
+    return fanOutAudioStream(audio, {
+      room: roomOutput,
+      sinks,
+      // Avatar-only: barge-in already dropped this utterance, stop reading TTS.
+      // With room output the session cancels the stream itself.
+      shouldStop: () => !roomOutput && !!utterance?.isInterrupted,
+    });
+  }
+
+  private logServerEvents(): void {
+    this.events.on('event', (ev) => console.log('📨 LiveAvatar:', ev.type));
+    this.events.on('error', (ev) => console.error('❌ LiveAvatar error:', ev.message ?? ev));
+    this.events.on('unknown', ({ type }) => {
+      // Report each new type once - some (audio buffer updates) are very chatty
+      if (this.events.unknownTypes.get(type) === 1) {
+        console.warn(`❓ Unknown LiveAvatar event type: ${type}`);
+      }
+    });
+    this.events.on('invalid', ({ raw, reason }) => {
+      console.warn(`⚠️  Unparseable LiveAvatar frame (${reason}): ${raw.slice(0, 200)}`);
+    });
+    this.events.on('agent.speak_ended', (ev) => this.speech.handleServerEvent(ev));
+  }
+}
+
+function stopReasonForClose(reason: voice.CloseReason): LiveAvatarStopReason {
+  switch (reason) {
+    case voice.CloseReason.PARTICIPANT_DISCONNECTED:
+      return 'USER_CLOSED';
+    case voice.CloseReason.ERROR:
+      return 'AGENT_ERROR';
+    default:
+      return 'AGENT_SHUTDOWN';
+  }
+}
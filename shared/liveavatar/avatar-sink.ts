@@ -0,0 +1,46 @@
+/**
+ * LiveAvatarSink - AudioFanout sink that feeds a scheduler utterance
+ *
+ * Normalizes TTS frames to 24kHz mono, cuts them into fixed-duration
+ * chunks and pushes them onto the utterance. Serialization and pacing are
+ * the scheduler's job, so write() never blocks - TTS is read as fast as it
+ * arrives and the unsent audio waits on the utterance.
+ */
+
+import type { AudioFrame } from '@livekit/rtc-node';
+import type { AudioSink } from '../audio/fanout.js';
+import { PcmNormalizer } from '../audio/normalizer.js';
+import { DEFAULT_CHUNK_MS, PcmChunker } from '../audio/chunker.js';
+import { LIVE_AVATAR_SAMPLE_RATE, type Utterance } from './speech-scheduler.js';
+
+export class LiveAvatarSink implements AudioSink {
+  readonly name = 'avatar';
+  private normalizer = new PcmNormalizer(LIVE_AVATAR_SAMPLE_RATE);
+  private chunker: PcmChunker;
+
+  constructor(readonly utterance: Utterance, chunkMs = DEFAULT_CHUNK_MS) {
+    this.chunker = new PcmChunker(LIVE_AVATAR_SAMPLE_RATE, chunkMs);
+  }
+
+  write(frame: AudioFrame): void {
+    // Barge-in already dropped this utterance - nothing to feed
+    if (this.utterance.isInterrupted) return;
+    for (const chunk of this.chunker.push(this.normalizer.push(frame))) {
+      this.utterance.push(chunk);
+    }
+  }
+
+  /** Push what's left, then agent.speak_end once it's this utterance's turn */
+  end(): void {
+    for (const chunk of this.chunker.push(this.normalizer.flush())) {
+      this.utterance.push(chunk);
+    }
+    const rest = this.chunker.flush();
+    if (rest) this.utterance.push(rest);
+    this.utterance.end();
+  }
+
+  abort(): void {
+    this.utterance.cancel();
+  }
+}
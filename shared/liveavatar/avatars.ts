@@ -0,0 +1,153 @@
+/**
+ * Avatar resolver - Turn "which avatar" into exactly one ACTIVE avatar
+ *
+ * The query can be:
+ * - an avatar ID
+ * - a name (case-insensitive)
+ * - a name pattern with * and ? ("Mock*", "*Doctor?")
+ * - nothing, which takes the first ACTIVE avatar in the catalog
+ *
+ * The catalog (catalog.ts - private + public avatars, cached) is sorted
+ * by name then ID so the same query picks the same avatar however the API
+ * orders it. Public avatars rank first (what this used to pick from), or
+ * private ones with `preferPrivate`. An ACTIVE match always wins over an
+ * inactive one; if there is none, the error lists what did match and the
+ * closest ACTIVE alternatives. A cached catalog without a match is
+ * refetched once before giving up, in case the avatar is new.
+ */
+
+import { loadAvatarCatalog, type CatalogAvatar } from './catalog.js';
+import type { LiveAvatarClient } from './client.js';
+import { AvatarInactiveError, AvatarNotFoundError, LiveAvatarError } from './errors.js';
+import type { LiveAvatar } from './types.js';
+
+const MAX_SUGGESTIONS = 5;
+
+export interface ResolveAvatarOptions {
+  query?: string;            // ID, name or name pattern - defaults to LIVE_AVATAR_ID
+  preferPrivate?: boolean;   // Defaults to LIVE_AVATAR_PREFER_PRIVATE
+  client?: LiveAvatarClient;
+  catalogTtlMs?: number;     // Defaults to LIVE_AVATAR_CATALOG_TTL_MS
+}
+
+/**
+ * LIVE_AVATAR_PREFER_PRIVATE ('on' or 'off', default off) - rank the
+ * account's private avatars ahead of public ones with the same name
+ */
+export function preferPrivateFromEnv(): boolean {
+  const raw = process.env.LIVE_AVATAR_PREFER_PRIVATE?.trim();
+  if (!raw) return false;
+  if (raw !== 'on' && raw !== 'off') {
+    throw new Error(`Invalid LIVE_AVATAR_PREFER_PRIVATE: "${raw}" (expected on or off)`);
+  }
+  return raw === 'on';
+}
+
+export async function resolveAvatar(options: ResolveAvatarOptions = {}): Promise<CatalogAvatar> {
+  const query = (options.query ?? process.env.LIVE_AVATAR_ID)?.trim() || undefined;
+  const preferPrivate = options.preferPrivate ?? preferPrivateFromEnv();
+  const load = (refresh: boolean) =>
+    loadAvatarCatalog({ client: options.client, ttlMs: options.catalogTtlMs, refresh });
+
+  const catalog = await load(false);
+  try {
+    return pick(catalog.avatars, query, preferPrivate);
+  } catch (error) {
+    if (!catalog.fromCache || !(error instanceof LiveAvatarError)) throw error;
+    console.log('🔄 No match in the cached avatar catalog - refetching');
+    return pick((await load(true)).avatars, query, preferPrivate);
+  }
+}
+
+function pick(avatars: CatalogAvatar[], query: string | undefined, preferPrivate: boolean): CatalogAvatar {
+  const catalog = rank(avatars, preferPrivate);
+  const active = catalog.filter((a) => a.status === 'ACTIVE');
+
+  const matches = query ? matchAvatars(catalog, query) : catalog;
+  if (matches.length === 0) {
+    if (!query) throw new LiveAvatarError('No avatars found - the catalog is empty');
+    throw new AvatarNotFoundError(query, closeAvatarMatches(catalog, query));
+  }
+
+  const activeMatches = matches.filter((a) => a.status === 'ACTIVE');
+  if (activeMatches.length === 0) {
+    if (!query) throw new LiveAvatarError('No avatar specified and no ACTIVE avatars found');
+    throw new AvatarInactiveError(query, matches, closeAvatarMatches(active, query));
+  }
+
+  const [avatar] = activeMatches;
+  if (query && activeMatches.length > 1 && avatar.id !== query) {
+    console.warn(`⚠️  "${query}" matches ${activeMatches.length} ACTIVE avatars - using the first, pin its ID to be sure`);
+  }
+  console.log(`Using avatar: ${avatar.name} (${avatar.id}, ${avatar.source})`);
+  return avatar;
+}
+
+// ============================================================================
+// MATCHING
+// ============================================================================
+
+/** Most specific kind of match wins: ID, then exact name, then pattern */
+export function matchAvatars<T extends LiveAvatar>(catalog: T[], query: string): T[] {
+  const byId = catalog.filter((a) => a.id === query);
+  if (byId.length > 0) return byId;
+
+  const name = query.toLowerCase();
+  const byName = catalog.filter((a) => a.name.toLowerCase() === name);
+  if (byName.length > 0 || !/[*?]/.test(query)) return byName;
+
+  const pattern = globToRegExp(query);
+  return catalog.filter((a) => pattern.test(a.name));
+}
+
+function rank(avatars: CatalogAvatar[], preferPrivate: boolean): CatalogAvatar[] {
+  const preferred = preferPrivate ? 'private' : 'public';
+  const sourceOrder = (a: CatalogAvatar) => (a.source === preferred ? 0 : 1);
+  return [...avatars].sort((a, b) =>
+    sourceOrder(a) - sourceOrder(b) ||
+    a.name.localeCompare(b.name) ||
+    a.id.localeCompare(b.id),
+  );
+}
+
+function globToRegExp(glob: string): RegExp {
+  const source = glob
+    .split('')
+    .map((c) => (c === '*' ? '.*' : c === '?' ? '.' : c.replace(/[.+^${}()|[\]\\]/g, '\\$&')))
+    .join('');
+  return new RegExp(`^${source}$`, 'i');
+}
+
+/** Avatars whose name or ID contains the query, or whose name (or a word of it) is a few edits away */
+export function closeAvatarMatches<T extends LiveAvatar>(avatars: T[], query: string): T[] {
+  const q = query.toLowerCase().replace(/[*?]/g, '');
+  const maxDistance = Math.max(2, Math.floor(q.length / 3));
+
+  return avatars
+    .map((avatar) => {
+      const name = avatar.name.toLowerCase();
+      const contains = q.length > 0 && (name.includes(q) || q.includes(name) || avatar.id.startsWith(query));
+      const words = [name, ...name.split(/\s+/)];
+      return { avatar, distance: contains ? 0 : Math.min(...words.map((w) => editDistance(w, q))) };
+    })
+    .filter(({ distance }) => distance <= maxDistance)
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, MAX_SUGGESTIONS)
+    .map(({ avatar }) => avatar);
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
@@ -0,0 +1,122 @@
+/**
+ * Avatar catalog - The account's private avatars plus the public ones, cached
+ *
+ * The catalog rarely changes, but every job start used to list it before
+ * it could create a session. It's cached as JSON in .liveavatar-cache/
+ * (LIVE_AVATAR_CACHE_DIR), one file per LiveAvatar API + API key, for
+ * LIVE_AVATAR_CATALOG_TTL_MS. A stale or unreadable cache file is simply
+ * refetched; a failed write only warns.
+ */
+
+import { mkdir, readFile, rename, rm, writeFile } from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { LiveAvatarClient } from './client.js';
+import type { LiveAvatar } from './types.js';
+
+export const DEFAULT_CATALOG_TTL_MS = 10 * 60_000;
+
+export interface CatalogAvatar extends LiveAvatar {
+  source: 'private' | 'public';
+}
+
+export interface AvatarCatalog {
+  avatars: CatalogAvatar[];
+  fetchedAt: Date;
+  fromCache: boolean;
+}
+
+export interface LoadAvatarCatalogOptions {
+  client?: LiveAvatarClient;
+  ttlMs?: number;      // Defaults to LIVE_AVATAR_CATALOG_TTL_MS, 0 skips the cache
+  refresh?: boolean;   // Ignore the cached copy (still writes the new one)
+}
+
+interface CacheFile {
+  apiUrl: string;
+  fetchedAt: string;   // ISO timestamp
+  avatars: CatalogAvatar[];
+}
+
+const DEFAULT_CACHE_DIR = fileURLToPath(new URL('../../.liveavatar-cache/', import.meta.url));
+
+export function catalogCacheDir(): string {
+  return process.env.LIVE_AVATAR_CACHE_DIR || DEFAULT_CACHE_DIR;
+}
+
+/**
+ * LIVE_AVATAR_CATALOG_TTL_MS - how long a cached catalog is used
+ * (default 10 minutes, 0 = always fetch)
+ */
+export function catalogTtlMsFromEnv(): number {
+  const raw = process.env.LIVE_AVATAR_CATALOG_TTL_MS?.trim();
+  if (!raw) return DEFAULT_CATALOG_TTL_MS;
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value < 0) {
+    throw new Error(`Invalid LIVE_AVATAR_CATALOG_TTL_MS: "${raw}" (expected a number of ms, 0 = no cache)`);
+  }
+  return value;
+}
+
+const cachePath = (client: LiveAvatarClient) =>
+  path.join(catalogCacheDir(), `catalog-${client.cacheKey}.json`);
+
+/** Private + public avatars, straight from the API. A failed private listing only warns. */
+export async function fetchAvatarCatalog(client = new LiveAvatarClient()): Promise<CatalogAvatar[]> {
+  const [privateAvatars, publicAvatars] = await Promise.all([
+    client.listPrivateAvatars().catch((error) => {
+      console.warn('⚠️  Could not list private avatars - using public avatars only:', error instanceof Error ? error.message : error);
+      return [];
+    }),
+    client.listPublicAvatars(),
+  ]);
+
+  return [
+    ...privateAvatars.map((a) => ({ ...a, source: 'private' as const })),
+    ...publicAvatars.map((a) => ({ ...a, source: 'public' as const })),
+  ];
+}
+
+/** The catalog from cache if it's fresh enough, otherwise fetched (and cached) */
+export async function loadAvatarCatalog(options: LoadAvatarCatalogOptions = {}): Promise<AvatarCatalog> {
+  const client = options.client ?? new LiveAvatarClient();
+  const ttlMs = options.ttlMs ?? catalogTtlMsFromEnv();
+  const file = cachePath(client);
+
+  if (ttlMs > 0 && !options.refresh) {
+    const cached = await readCacheFile(file);
+    const fetchedAt = cached && new Date(cached.fetchedAt);
+    if (fetchedAt && Date.now() - fetchedAt.getTime() < ttlMs) {
+      return { avatars: cached.avatars, fetchedAt, fromCache: true };
+    }
+  }
+
+  const avatars = await fetchAvatarCatalog(client);
+  const fetchedAt = new Date();
+  if (ttlMs > 0) {
+    await writeCacheFile(file, { apiUrl: client.baseUrl, fetchedAt: fetchedAt.toISOString(), avatars })
+      .catch((error) => console.warn('⚠️  Failed to cache avatar catalog:', error));
+  }
+  return { avatars, fetchedAt, fromCache: false };
+}
+
+export async function clearAvatarCatalogCache(client = new LiveAvatarClient()): Promise<void> {
+  await rm(cachePath(client), { force: true });
+}
+
+async function readCacheFile(file: string): Promise<CacheFile | null> {
+  try {
+    const cached = JSON.parse(await readFile(file, 'utf8')) as CacheFile;
+    return Array.isArray(cached.avatars) && !Number.isNaN(Date.parse(cached.fetchedAt)) ? cached : null;
+  } catch {
+    return null;
+  }
+}
+
+// Written to a temp file and renamed - jobs starting together never read half a file
+async function writeCacheFile(file: string, contents: CacheFile): Promise<void> {
+  await mkdir(path.dirname(file), { recursive: true });
+  const tmp = `${file}.${process.pid}.tmp`;
+  await writeFile(tmp, JSON.stringify(contents, null, 2) + '\n');
+  await rename(tmp, file);
+}
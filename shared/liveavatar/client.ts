@@ -0,0 +1,134 @@
+/**
+ * LiveAvatarClient - Typed wrapper around the LiveAvatar REST API
+ *
+ * Replaces the fetch calls that used to be copy-pasted into every agent.
+ * Every method throws LiveAvatarHttpError on a non-2xx status and
+ * LiveAvatarResponseError when the body is missing a field we rely on.
+ */
+
+import { createHash } from 'crypto';
+import { LiveAvatarHttpError, LiveAvatarResponseError } from './errors.js';
+import type {
+  CreateSessionTokenRequest,
+  LiveAvatar,
+  LiveAvatarListResponse,
+  LiveAvatarSessionResponse,
+  LiveAvatarStartResponse,
+  LiveAvatarStopReason,
+  LiveAvatarStopResponse,
+} from './types.js';
+
+export const LIVE_AVATAR_API_URL = 'https://api.liveavatar.com';
+
+export interface LiveAvatarClientOptions {
+  apiKey?: string;   // Defaults to LIVE_AVATAR_API_KEY
+  baseUrl?: string;  // Defaults to env LIVE_AVATAR_API_URL, then the public API
+}
+
+export class LiveAvatarClient {
+  readonly baseUrl: string;
+  private apiKey: string;
+
+  constructor(options: LiveAvatarClientOptions = {}) {
+    this.apiKey = options.apiKey ?? process.env.LIVE_AVATAR_API_KEY ?? '';
+    this.baseUrl = (options.baseUrl ?? process.env.LIVE_AVATAR_API_URL ?? LIVE_AVATAR_API_URL)
+      .replace(/\/+$/, '');
+  }
+
+  /** Identifies this API URL + key in on-disk caches without writing the key itself */
+  get cacheKey(): string {
+    return createHash('sha256').update(`${this.baseUrl}\n${this.apiKey}`).digest('hex').slice(0, 16);
+  }
+
+  /** GET /v1/avatars/public */
+  listPublicAvatars(): Promise<LiveAvatar[]> {
+    return this.listAvatarsAt('/v1/avatars/public');
+  }
+
+  /** GET /v1/avatars - the account's own (private) avatars */
+  listPrivateAvatars(): Promise<LiveAvatar[]> {
+    return this.listAvatarsAt('/v1/avatars');
+  }
+
+  /** POST /v1/sessions/token - creates the session, does not start it */
+  async createSessionToken(
+    payload: CreateSessionTokenRequest,
+  ): Promise<LiveAvatarSessionResponse['data']> {
+    const body = await this.request<LiveAvatarSessionResponse>('POST', '/v1/sessions/token', {
+      headers: this.apiKeyHeaders(),
+      body: payload,
+    });
+
+    if (!body.data?.session_id || !body.data?.session_token) {
+      throw new LiveAvatarResponseError('/v1/sessions/token', 'missing session_id or session_token', body);
+    }
+    return body.data;
+  }
+
+  /** POST /v1/sessions/start - authorized with the session token, not the API key */
+  async startSession(sessionToken: string): Promise<LiveAvatarStartResponse['data']> {
+    const body = await this.request<LiveAvatarStartResponse>('POST', '/v1/sessions/start', {
+      headers: { 'Authorization': `Bearer ${sessionToken}` },
+      body: {},
+    });
+
+    if (!body.data) {
+      throw new LiveAvatarResponseError('/v1/sessions/start', 'missing data', body);
+    }
+    return body.data;
+  }
+
+  /** POST /v1/sessions/stop */
+  async stopSession(
+    sessionId: string,
+    reason: LiveAvatarStopReason = 'USER_CLOSED',
+  ): Promise<void> {
+    await this.request<LiveAvatarStopResponse>('POST', '/v1/sessions/stop', {
+      headers: this.apiKeyHeaders(),
+      body: { session_id: sessionId, reason },
+    });
+  }
+
+  private async listAvatarsAt(endpoint: string): Promise<LiveAvatar[]> {
+    const body = await this.request<LiveAvatarListResponse>('GET', endpoint, {
+      headers: this.apiKeyHeaders(),
+    });
+
+    if (!Array.isArray(body.data?.results)) {
+      throw new LiveAvatarResponseError(endpoint, 'missing data.results', body);
+    }
+    return body.data.results;
+  }
+
+  private apiKeyHeaders(): Record<string, string> {
+    return { 'X-API-KEY': this.apiKey };
+  }
+
+  private async request<T>(
+    method: 'GET' | 'POST',
+    endpoint: string,
+    init: { headers: Record<string, string>; body?: unknown },
+  ): Promise<T> {
+    const headers: Record<string, string> = { ...init.headers };
+    if (init.body !== undefined) {
+      headers['Content-Type'] = 'application/json';
+    }
+
+    const response = await fetch(`${this.baseUrl}${endpoint}`, {
+      method,
+      headers,
+      body: init.body !== undefined ? JSON.stringify(init.body) : undefined,
+    });
+
+    const text = await response.text();
+    if (!response.ok) {
+      throw new LiveAvatarHttpError(endpoint, response.status, text);
+    }
+
+    try {
+      return (text ? JSON.parse(text) : {}) as T;
+    } catch {
+      throw new LiveAvatarResponseError(endpoint, 'body is not JSON', text);
+    }
+  }
+}
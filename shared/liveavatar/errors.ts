@@ -0,0 +1,83 @@
+/**
+ * Errors thrown by the LiveAvatar client
+ */
+
+import type { LiveAvatar } from './types.js';
+
+export class LiveAvatarError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LiveAvatarError';
+  }
+}
+
+/**
+ * LiveAvatar answered with a non-2xx status.
+ *
+ * `body` is kept verbatim - LiveAvatar's 500s are opaque, and the raw body is
+ * usually the only hint (see working-examples/liveavatar-custom-room).
+ */
+export class LiveAvatarHttpError extends LiveAvatarError {
+  constructor(
+    readonly endpoint: string,
+    readonly status: number,
+    readonly body: string,
+  ) {
+    super(`LiveAvatar ${endpoint} failed: ${status} - ${body}`);
+    this.name = 'LiveAvatarHttpError';
+  }
+}
+
+/** The avatar token would be missing something LiveAvatar needs - see token.ts */
+export class LiveAvatarTokenError extends LiveAvatarError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LiveAvatarTokenError';
+  }
+}
+
+/** No avatar in the catalog matches the ID / name / pattern we were given */
+export class AvatarNotFoundError extends LiveAvatarError {
+  constructor(
+    readonly query: string,
+    readonly closeMatches: LiveAvatar[],
+  ) {
+    super(`No LiveAvatar avatar matches "${query}"${describeMatches('Close matches', closeMatches)}`);
+    this.name = 'AvatarNotFoundError';
+  }
+}
+
+/** The avatar(s) matching the query exist but none of them is ACTIVE */
+export class AvatarInactiveError extends LiveAvatarError {
+  constructor(
+    readonly query: string,
+    readonly matches: LiveAvatar[],
+    readonly activeAlternatives: LiveAvatar[],
+  ) {
+    super(
+      `LiveAvatar avatar "${query}" is not ACTIVE${describeMatches('Matched', matches)}` +
+      describeMatches('Active alternatives', activeAlternatives),
+    );
+    this.name = 'AvatarInactiveError';
+  }
+}
+
+function describeMatches(label: string, avatars: LiveAvatar[]): string {
+  if (avatars.length === 0) return '';
+  return `. ${label}: ${avatars.map((a) => `${a.name} (${a.id}, ${a.status})`).join(', ')}`;
+}
+
+/**
+ * LiveAvatar answered 2xx but the body was not what we expected
+ * (not JSON, or a required field like `session_token` is missing).
+ */
+export class LiveAvatarResponseError extends LiveAvatarError {
+  constructor(
+    readonly endpoint: string,
+    message: string,
+    readonly body: unknown,
+  ) {
+    super(`LiveAvatar ${endpoint} returned an unexpected response: ${message}`);
+    this.name = 'LiveAvatarResponseError';
+  }
+}
@@ -0,0 +1,147 @@
+/**
+ * LiveAvatarEvents - Typed stream of LiveAvatar WebSocket server messages
+ *
+ * Feed every raw frame to handle(); subscribers get parsed events by type
+ * instead of each agent re-parsing JSON:
+ *
+ *   events.on('agent.speak_ended', (ev) => scheduler.handleServerEvent(ev));
+ *
+ * Nothing is dropped silently - message types this file doesn't know come
+ * out as 'unknown', frames that aren't a JSON object with a `type` as
+ * 'invalid'. Both are counted for reporting.
+ */
+
+import { EventEmitter } from 'events';
+import type WebSocket from 'ws';
+
+// ============================================================================
+// SERVER MESSAGES
+// ============================================================================
+
+export interface SpeakStartedEvent {
+  type: 'agent.speak_started';
+  event_id?: string;
+}
+
+export interface SpeakEndedEvent {
+  type: 'agent.speak_ended';
+  event_id?: string;
+}
+
+export interface IdleStartedEvent {
+  type: 'agent.idle_started';
+}
+
+export interface IdleEndedEvent {
+  type: 'agent.idle_ended';
+}
+
+export interface ServerErrorEvent {
+  type: 'error';
+  event_id?: string;
+  message?: string;
+}
+
+export type LiveAvatarServerEvent =
+  | SpeakStartedEvent
+  | SpeakEndedEvent
+  | IdleStartedEvent
+  | IdleEndedEvent
+  | ServerErrorEvent;
+
+export type LiveAvatarServerEventType = LiveAvatarServerEvent['type'];
+
+const SERVER_EVENT_TYPES: ReadonlySet<string> = new Set<LiveAvatarServerEventType>([
+  'agent.speak_started',
+  'agent.speak_ended',
+  'agent.idle_started',
+  'agent.idle_ended',
+  'error',
+]);
+
+/** Well-formed message with a type not in LiveAvatarServerEvent */
+export interface UnknownServerEvent {
+  type: string;
+  message: Record<string, unknown>;
+}
+
+/** Frame that isn't a JSON object with a string `type` */
+export interface InvalidServerFrame {
+  raw: string;
+  reason: string;
+}
+
+type ServerEventMap = {
+  [K in LiveAvatarServerEventType]: Extract<LiveAvatarServerEvent, { type: K }>;
+};
+
+export type LiveAvatarEventMap = ServerEventMap & {
+  /** Every known server event, whatever its type */
+  event: LiveAvatarServerEvent;
+  unknown: UnknownServerEvent;
+  invalid: InvalidServerFrame;
+};
+
+// ============================================================================
+// EMITTER
+// ============================================================================
+
+export declare interface LiveAvatarEvents {
+  on<K extends keyof LiveAvatarEventMap>(event: K, listener: (ev: LiveAvatarEventMap[K]) => void): this;
+  once<K extends keyof LiveAvatarEventMap>(event: K, listener: (ev: LiveAvatarEventMap[K]) => void): this;
+  off<K extends keyof LiveAvatarEventMap>(event: K, listener: (ev: LiveAvatarEventMap[K]) => void): this;
+}
+
+export class LiveAvatarEvents extends EventEmitter {
+  /** Unknown message types seen so far, with counts */
+  readonly unknownTypes = new Map<string, number>();
+  private _invalidFrames = 0;
+
+  get invalidFrames(): number {
+    return this._invalidFrames;
+  }
+
+  /** Parse one WebSocket frame and emit it */
+  handle(data: WebSocket.RawData | string): void {
+    const raw = typeof data === 'string' ? data : rawToString(data);
+
+    let message: unknown;
+    try {
+      message = JSON.parse(raw);
+    } catch (error) {
+      return this.invalid(raw, error instanceof Error ? error.message : String(error));
+    }
+
+    if (typeof message !== 'object' || message === null || Array.isArray(message)) {
+      return this.invalid(raw, 'not a JSON object');
+    }
+    const { type } = message as { type?: unknown };
+    if (typeof type !== 'string') {
+      return this.invalid(raw, 'missing "type"');
+    }
+
+    if (!SERVER_EVENT_TYPES.has(type)) {
+      this.unknownTypes.set(type, (this.unknownTypes.get(type) ?? 0) + 1);
+      this.emit('unknown', { type, message: message as Record<string, unknown> });
+      return;
+    }
+
+    const event = message as LiveAvatarServerEvent;
+    // EventEmitter throws on 'error' with no listener - a server error
+    // message is still delivered through 'event'
+    if (event.type !== 'error' || this.listenerCount('error') > 0) {
+      this.emit(event.type, event);
+    }
+    this.emit('event', event);
+  }
+
+  private invalid(raw: string, reason: string): void {
+    this._invalidFrames++;
+    this.emit('invalid', { raw, reason });
+  }
+}
+
+function rawToString(data: WebSocket.RawData): string {
+  if (Array.isArray(data)) return Buffer.concat(data).toString();
+  return Buffer.from(data as ArrayBuffer).toString();
+}
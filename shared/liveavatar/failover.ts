@@ -0,0 +1,205 @@
+/**
+ * AvatarFailover - Keep talking when the avatar doesn't
+ *
+ * Owns the LiveAvatar connection (session + WebSocket) and tracks whether
+ * it is usable. ttsNode overrides check `online` per utterance: while the
+ * avatar is down, audio goes to the normal room output instead so the user
+ * still hears the agent. Reconnects are retried in the background (each
+ * one is a fresh LiveAvatar session) and output moves back to the avatar
+ * once one succeeds.
+ *
+ * Goes offline when starting the session / connecting throws, or when the
+ * LiveAvatarSocket gives up reconnecting. Short WebSocket drops don't count:
+ * the socket resumes the same session and buffers audio meanwhile.
+ * 'status_changed' is there for the UI - the agents mirror it to the
+ * ATTRIBUTE_AVATAR_STATUS participant attribute.
+ */
+
+import { EventEmitter } from 'events';
+import { LiveAvatarClient } from './client.js';
+import type { LiveAvatarStopReason } from './types.js';
+import {
+  startLiveAvatarSession,
+  stopLiveAvatarSession,
+  type StartLiveAvatarSessionOptions,
+} from './session.js';
+import { LiveAvatarSocket, type LiveAvatarSocketOptions } from './socket.js';
+
+export const ATTRIBUTE_AVATAR_STATUS = 'liveavatar.status';
+
+// Used when /v1/sessions/start doesn't return a ws_url
+const FALLBACK_WS_URL = 'wss://api.heygen.com/v1/streaming.avatar.ws';
+
+export type AvatarStatus = 'connecting' | 'online' | 'offline';
+
+export interface AvatarStatusChangedEvent {
+  oldStatus: AvatarStatus;
+  newStatus: AvatarStatus;
+  reason?: string;
+}
+
+export interface AvatarConnection {
+  sessionId: string;
+  socket: LiveAvatarSocket;
+  /** Close the socket and stop the LiveAvatar session */
+  close(reason?: LiveAvatarStopReason): Promise<void>;
+}
+
+export interface AvatarFailoverOptions {
+  /** Delay between reconnect attempts while offline */
+  retryMs?: number;
+}
+
+/** Start a LiveAvatar session and open its WebSocket */
+export async function connectLiveAvatar(
+  options: StartLiveAvatarSessionOptions,
+  socketOptions: LiveAvatarSocketOptions = {},
+): Promise<AvatarConnection> {
+  const client = options.client ?? new LiveAvatarClient();
+  const { sessionId, wsUrl } = await startLiveAvatarSession({ ...options, client });
+
+  let socket: LiveAvatarSocket;
+  try {
+    socket = await LiveAvatarSocket.connect(wsUrl || FALLBACK_WS_URL, socketOptions);
+  } catch (error) {
+    await stopLiveAvatarSession(sessionId, 'CONNECTION_LOST', client).catch(() => {});
+    throw error;
+  }
+  console.log('✅ Connected to LiveAvatar WebSocket');
+
+  return {
+    sessionId,
+    socket,
+    async close(reason = 'USER_CLOSED') {
+      socket.close();
+      await stopLiveAvatarSession(sessionId, reason, client);
+    },
+  };
+}
+
+export declare interface AvatarFailover {
+  on(event: 'status_changed', listener: (ev: AvatarStatusChangedEvent) => void): this;
+  on(event: 'connected', listener: (connection: AvatarConnection) => void): this;
+  once(event: 'status_changed', listener: (ev: AvatarStatusChangedEvent) => void): this;
+  once(event: 'connected', listener: (connection: AvatarConnection) => void): this;
+}
+
+export class AvatarFailover extends EventEmitter {
+  private _status: AvatarStatus = 'connecting';
+  private connection: AvatarConnection | null = null;
+  private retryTimer?: NodeJS.Timeout;
+  private pending: Promise<boolean> | null = null;   // Connect attempt in flight
+  private retryMs: number;
+  private stopped = false;
+  private stopReason: LiveAvatarStopReason = 'USER_CLOSED';
+
+  constructor(
+    private connect: () => Promise<AvatarConnection>,
+    options: AvatarFailoverOptions = {},
+  ) {
+    super();
+    this.retryMs = options.retryMs ?? 10_000;
+  }
+
+  get status(): AvatarStatus {
+    return this._status;
+  }
+
+  get online(): boolean {
+    return this._status === 'online';
+  }
+
+  /** Socket of the current connection, if any */
+  get socket(): LiveAvatarSocket | null {
+    return this.connection?.socket ?? null;
+  }
+
+  get sessionId(): string | null {
+    return this.connection?.sessionId ?? null;
+  }
+
+  /** First connection attempt. Never throws - resolves false and keeps retrying instead. */
+  start(): Promise<boolean> {
+    return this.track(this.attempt());
+  }
+
+  /** Take the avatar out of rotation (e.g. it stopped responding) and reconnect */
+  markOffline(reason: string): void {
+    if (this.stopped || this._status === 'offline') return;
+
+    const connection = this.connection;
+    this.connection = null;
+    connection?.close('CONNECTION_LOST').catch((error) => {
+      console.error('⚠️  Failed to stop dead LiveAvatar session:', error);
+    });
+
+    this.setStatus('offline', reason);
+    this.scheduleRetry();
+  }
+
+  /**
+   * Shut down for good - no more retries. Also waits for a connect attempt
+   * in flight, which stops the session it started once it sees `stopped` -
+   * otherwise the job could exit first and leave that session running.
+   */
+  async stop(reason: LiveAvatarStopReason = 'USER_CLOSED'): Promise<void> {
+    this.stopped = true;
+    this.stopReason = reason;
+    clearTimeout(this.retryTimer);
+    const connection = this.connection;
+    this.connection = null;
+    await Promise.all([connection?.close(reason), this.pending]);
+  }
+
+  private track(attempt: Promise<boolean>): Promise<boolean> {
+    this.pending = attempt;
+    void attempt.finally(() => {
+      if (this.pending === attempt) this.pending = null;
+    });
+    return attempt;
+  }
+
+  private async attempt(): Promise<boolean> {
+    let connection: AvatarConnection;
+    try {
+      connection = await this.connect();
+    } catch (error) {
+      this.setStatus('offline', error instanceof Error ? error.message : String(error));
+      this.scheduleRetry();
+      return false;
+    }
+
+    if (this.stopped) {
+      await connection.close(this.stopReason).catch((error) => {
+        console.error('⚠️  Failed to stop LiveAvatar session started during shutdown:', error);
+      });
+      return false;
+    }
+
+    this.connection = connection;
+    connection.socket.on('reconnect_failed', ({ reason }) => {
+      if (this.connection === connection) this.markOffline(`WebSocket lost: ${reason}`);
+    });
+
+    this.emit('connected', connection);
+    this.setStatus('online');
+    return true;
+  }
+
+  private scheduleRetry(): void {
+    if (this.stopped || this.retryTimer) return;
+    console.log(`🔁 Retrying LiveAvatar in ${this.retryMs / 1000}s`);
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = undefined;
+      this.setStatus('connecting');
+      void this.track(this.attempt());
+    }, this.retryMs);
+  }
+
+  private setStatus(newStatus: AvatarStatus, reason?: string): void {
+    if (newStatus === this._status) return;
+    const oldStatus = this._status;
+    this._status = newStatus;
+    this.emit('status_changed', { oldStatus, newStatus, reason });
+  }
+}
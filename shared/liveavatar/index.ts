@@ -0,0 +1,24 @@
+/**
+ * LiveAvatar "plugin" - import like the other avatar plugins:
+ *
+ *   import * as liveavatar from '../../shared/liveavatar/index.js';
+ *   const avatar = new liveavatar.AvatarSession();
+ *
+ * The building blocks stay importable from their own files.
+ */
+
+export { AvatarSession, type AvatarSessionOptions } from './avatar-session.js';
+export { LiveAvatarAudioOutput, type LiveAvatarAudioOutputOptions } from './audio-output.js';
+export { ATTRIBUTE_AVATAR_STATUS, type AvatarStatus, type AvatarStatusChangedEvent } from './failover.js';
+export { AVATAR_IDENTITY, buildAvatarToken, type AvatarTokenOptions } from './token.js';
+export { resolveAvatar, type ResolveAvatarOptions } from './avatars.js';
+export { loadAvatarCatalog, type AvatarCatalog, type CatalogAvatar } from './catalog.js';
+export { LiveAvatarClient } from './client.js';
+export {
+  AvatarInactiveError,
+  AvatarNotFoundError,
+  LiveAvatarError,
+  LiveAvatarHttpError,
+  LiveAvatarResponseError,
+  LiveAvatarTokenError,
+} from './errors.js';
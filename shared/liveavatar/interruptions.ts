@@ -0,0 +1,102 @@
+/**
+ * forwardInterruptions - Turn AgentSession barge-in into `agent.interrupt`
+ *
+ * Two cases need covering:
+ * 1. The session interrupts a speech handle while TTS is still running.
+ *    The framework only cancels ttsNode() streams after they close, so we
+ *    watch the SpeechHandle itself instead.
+ * 2. TTS already finished but the avatar is still playing buffered audio.
+ *    The session has no speech left to interrupt (even if mirrorAvatarState
+ *    still reports `speaking`), so we apply its own rules
+ *    (allowInterruptions, minInterruptionDuration, minInterruptionWords) to
+ *    the user's speech ourselves.
+ *
+ * Either way the scheduler drops queued audio and sends `agent.interrupt`
+ * for the active event_id.
+ */
+
+import { voice } from '@livekit/agents';
+import type { LiveAvatarSpeechScheduler } from './speech-scheduler.js';
+
+const countWords = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+/** Returns a function that detaches every listener */
+export function forwardInterruptions(
+  session: voice.AgentSession,
+  speech: LiveAvatarSpeechScheduler,
+): () => void {
+  // Speech handles created with allowInterruptions: false protect whatever
+  // the avatar is still playing until the scheduler goes idle
+  let uninterruptible = false;
+  // Speech handles the session is still playing out - it interrupts those itself
+  let activeHandles = 0;
+
+  let userSpeakingSince: number | null = null;
+  let userWords = 0;
+  let durationTimer: NodeJS.Timeout | undefined;
+
+  const interrupt = (why: string) => {
+    if (speech.state === 'idle' && speech.queued === 0) return;
+    console.log(`🛑 Interrupting avatar (${why})`);
+    speech.interrupt();
+  };
+
+  // Case 2: barge-in while the avatar drains audio the session already let go of
+  const maybeInterruptAvatar = () => {
+    const { allowInterruptions, minInterruptionDuration, minInterruptionWords } = session.options;
+    if (!allowInterruptions || uninterruptible || userSpeakingSince === null) return;
+    if (activeHandles > 0) return;  // Session handles its own speech
+
+    if (Date.now() - userSpeakingSince < minInterruptionDuration) return;
+    if (minInterruptionWords > 0 && userWords < minInterruptionWords) return;
+
+    interrupt('user barge-in during avatar playback');
+  };
+
+  const onSpeechCreated = (ev: voice.SpeechCreatedEvent) => {
+    const handle = ev.speechHandle;
+    if (!handle.allowInterruptions) uninterruptible = true;
+    activeHandles++;
+    handle.addDoneCallback(() => activeHandles--);
+
+    // Case 1: resolves as soon as the handle is interrupted (or finishes)
+    const done = new Promise<void>((resolve) => handle.addDoneCallback(() => resolve()));
+    handle.waitIfNotInterrupted([done]).then(() => {
+      if (handle.interrupted) interrupt('session interrupted speech');
+    });
+  };
+
+  const onUserState = (ev: voice.UserStateChangedEvent) => {
+    clearTimeout(durationTimer);
+    if (ev.newState === 'speaking') {
+      userSpeakingSince = Date.now();
+      userWords = 0;
+      durationTimer = setTimeout(maybeInterruptAvatar, session.options.minInterruptionDuration);
+    } else {
+      userSpeakingSince = null;
+    }
+  };
+
+  const onTranscribed = (ev: voice.UserInputTranscribedEvent) => {
+    if (userSpeakingSince === null) return;
+    userWords = Math.max(userWords, countWords(ev.transcript));
+    maybeInterruptAvatar();
+  };
+
+  const onSpeechState = () => {
+    if (speech.state === 'idle' && speech.queued === 0) uninterruptible = false;
+  };
+
+  session.on(voice.AgentSessionEventTypes.SpeechCreated, onSpeechCreated);
+  session.on(voice.AgentSessionEventTypes.UserStateChanged, onUserState);
+  session.on(voice.AgentSessionEventTypes.UserInputTranscribed, onTranscribed);
+  speech.on('state_changed', onSpeechState);
+
+  return () => {
+    clearTimeout(durationTimer);
+    session.off(voice.AgentSessionEventTypes.SpeechCreated, onSpeechCreated);
+    session.off(voice.AgentSessionEventTypes.UserStateChanged, onUserState);
+    session.off(voice.AgentSessionEventTypes.UserInputTranscribed, onTranscribed);
+    speech.off('state_changed', onSpeechState);
+  };
+}
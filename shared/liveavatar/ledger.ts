@@ -0,0 +1,65 @@
+/**
+ * Session ledger - Which LiveAvatar sessions this project has running
+ *
+ * Session IDs otherwise only live in the memory of the agent that started
+ * them, so a crash leaves the avatar running with nobody able to stop it.
+ * startLiveAvatarSession() records every session it creates here, stopping
+ * it through AvatarFailover / the reaper removes it again. Whatever is left
+ * over is what `npm run debug:reap-sessions` looks at.
+ *
+ * One JSON file per session in .liveavatar-sessions/ (LIVE_AVATAR_LEDGER_DIR)
+ * - job processes write concurrently, and this needs no locking.
+ */
+
+import { mkdir, readdir, readFile, rm, writeFile } from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+export interface LedgerEntry {
+  sessionId: string;
+  roomName: string;
+  avatarId: string;
+  avatarIdentity: string;
+  apiUrl: string;     // LiveAvatar API the session lives on (the mock, or the real one)
+  startedAt: string;  // ISO timestamp
+  pid: number;        // Process that started it
+}
+
+const DEFAULT_LEDGER_DIR = fileURLToPath(new URL('../../.liveavatar-sessions/', import.meta.url));
+
+export function ledgerDir(): string {
+  return process.env.LIVE_AVATAR_LEDGER_DIR || DEFAULT_LEDGER_DIR;
+}
+
+const entryPath = (sessionId: string) =>
+  path.join(ledgerDir(), `${sessionId.replace(/[^\w-]/g, '_')}.json`);
+
+export async function recordSession(entry: LedgerEntry): Promise<void> {
+  await mkdir(ledgerDir(), { recursive: true });
+  await writeFile(entryPath(entry.sessionId), JSON.stringify(entry, null, 2) + '\n');
+}
+
+export async function forgetSession(sessionId: string): Promise<void> {
+  await rm(entryPath(sessionId), { force: true });
+}
+
+/** Every recorded session, oldest first. Unreadable files are skipped with a warning. */
+export async function listLedger(): Promise<LedgerEntry[]> {
+  let files: string[];
+  try {
+    files = await readdir(ledgerDir());
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+
+  const entries: LedgerEntry[] = [];
+  for (const file of files.filter((f) => f.endsWith('.json'))) {
+    try {
+      entries.push(JSON.parse(await readFile(path.join(ledgerDir(), file), 'utf8')));
+    } catch (error) {
+      console.warn(`⚠️  Skipping unreadable ledger entry ${file}:`, error);
+    }
+  }
+  return entries.sort((a, b) => a.startedAt.localeCompare(b.startedAt));
+}
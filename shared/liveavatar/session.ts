@@ -0,0 +1,131 @@
+/**
+ * startLiveAvatarSession - Spawn a LiveAvatar in CUSTOM mode into a LiveKit room
+ *
+ * This is the flow every agent used to hand-roll:
+ * 1. Pick an avatar (resolveAvatar() - an ID, name or pattern, see avatars.ts)
+ * 2. Mint a LiveKit token for the avatar participant (buildAvatarToken())
+ * 3. Create the session (/v1/sessions/token)
+ * 4. Record it in the session ledger (ledger.ts) so a crash can't orphan it
+ * 5. Start it (/v1/sessions/start) and return the WebSocket URL - if that
+ *    fails, the session is stopped (and leaves the ledger) right away
+ */
+
+import { resolveAvatar } from './avatars.js';
+import { LiveAvatarClient } from './client.js';
+import { LiveAvatarHttpError } from './errors.js';
+import { forgetSession, recordSession } from './ledger.js';
+import { AVATAR_IDENTITY, buildAvatarToken } from './token.js';
+import type { LiveAvatarStopReason } from './types.js';
+
+export { ATTRIBUTE_PUBLISH_ON_BEHALF, AVATAR_IDENTITY, AVATAR_NAME } from './token.js';
+
+export interface StartLiveAvatarSessionOptions {
+  roomName: string;
+  localIdentity?: string;   // Agent identity the avatar publishes on behalf of
+  avatar?: string;          // ID, name or name pattern - defaults to LIVE_AVATAR_ID, then first ACTIVE avatar
+  avatarId?: string;        // Same as `avatar`, kept for older callers
+  preferPrivateAvatars?: boolean;  // Defaults to LIVE_AVATAR_PREFER_PRIVATE
+  avatarIdentity?: string;
+  maxSessionMs?: number;    // Avatar token stays valid this long (+ margin) so it can rejoin - defaults to 2 hours
+  client?: LiveAvatarClient;  // Defaults to a client for LIVE_AVATAR_API_URL
+  livekitUrl?: string;
+  livekitApiKey?: string;
+  livekitApiSecret?: string;
+}
+
+export interface LiveAvatarSessionInfo {
+  sessionId: string;
+  sessionToken: string;
+  avatarId: string;
+  wsUrl?: string;
+}
+
+export async function startLiveAvatarSession(
+  options: StartLiveAvatarSessionOptions,
+): Promise<LiveAvatarSessionInfo> {
+  console.log('🎭 Starting LiveAvatar session...');
+
+  const client = options.client ?? new LiveAvatarClient();
+  const livekitUrl = options.livekitUrl ?? process.env.LIVEKIT_URL!;
+
+  // Step 1: Pick the avatar
+  const { id: avatarId } = await resolveAvatar({
+    query: options.avatar || options.avatarId || undefined,
+    preferPrivate: options.preferPrivateAvatars,
+    client,
+  });
+
+  // Step 2: Create LiveKit token for avatar
+  const jwt = await buildAvatarToken({
+    roomName: options.roomName,
+    identity: options.avatarIdentity,
+    publishOnBehalf: options.localIdentity,
+    maxSessionMs: options.maxSessionMs,
+    apiKey: options.livekitApiKey,
+    apiSecret: options.livekitApiSecret,
+  });
+
+  // Step 3: Create LiveAvatar session
+  const { session_id: sessionId, session_token: sessionToken } = await client.createSessionToken({
+    mode: 'CUSTOM',
+    avatar_id: avatarId,
+    livekit_config: {
+      livekit_url: livekitUrl,
+      livekit_room: options.roomName,
+      livekit_client_token: jwt,
+    },
+  });
+
+  console.log(`Session token created: ${sessionId}`);
+
+  // Step 4: Remember it until it's stopped - a failed write only costs the reaper its view
+  await recordSession({
+    sessionId,
+    roomName: options.roomName,
+    avatarId,
+    avatarIdentity: options.avatarIdentity ?? AVATAR_IDENTITY,
+    apiUrl: client.baseUrl,
+    startedAt: new Date().toISOString(),
+    pid: process.pid,
+  }).catch((error) => console.warn('⚠️  Failed to record LiveAvatar session in ledger:', error));
+
+  // Step 5: Start LiveAvatar session and get WebSocket URL
+  let started;
+  try {
+    started = await client.startSession(sessionToken);
+  } catch (error) {
+    // If stopping fails too, the ledger entry stays for the reaper
+    await stopLiveAvatarSession(sessionId, 'AGENT_ERROR', client).catch((stopError) => {
+      console.warn(`⚠️  Failed to stop LiveAvatar session ${sessionId} after start failed:`, stopError);
+    });
+    throw error;
+  }
+
+  console.log('✅ LiveAvatar session started');
+  if (started.ws_url) {
+    console.log(`📡 WebSocket URL: ${started.ws_url}`);
+  }
+
+  return { sessionId, sessionToken, avatarId, wsUrl: started.ws_url };
+}
+
+/**
+ * /v1/sessions/stop, falling back to USER_CLOSED if the API doesn't take
+ * our reason. Drops the session from the ledger once it's stopped.
+ */
+export async function stopLiveAvatarSession(
+  sessionId: string,
+  reason: LiveAvatarStopReason = 'USER_CLOSED',
+  client = new LiveAvatarClient(),
+): Promise<void> {
+  try {
+    await client.stopSession(sessionId, reason);
+  } catch (error) {
+    const rejected = error instanceof LiveAvatarHttpError && (error.status === 400 || error.status === 422);
+    if (!rejected || reason === 'USER_CLOSED') throw error;
+    await client.stopSession(sessionId, 'USER_CLOSED');
+  }
+  await forgetSession(sessionId).catch((error) => {
+    console.warn('⚠️  Failed to remove LiveAvatar session from ledger:', error);
+  });
+}
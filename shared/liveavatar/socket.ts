@@ -0,0 +1,241 @@
+/**
+ * LiveAvatarSocket - Managed WebSocket for one LiveAvatar session
+ *
+ * A dropped connection is retried against the same ws_url with exponential
+ * backoff (plus jitter), which resumes the same LiveAvatar session as long
+ * as it is still alive. It gives up - and emits 'reconnect_failed' so the
+ * caller can start a new session - when:
+ * - maxAttempts reconnects in a row fail
+ * - the server closes normally (1000) or rejects the handshake with a 4xx,
+ *   i.e. the session is gone
+ *
+ * Messages sent while disconnected follow `outagePolicy`:
+ * - 'buffer' (default) - queued up to maxBufferedBytes and flushed on
+ *   reconnect; the oldest are dropped past the bound
+ * - 'drop' - discarded
+ */
+
+import { EventEmitter } from 'events';
+import WebSocket from 'ws';
+
+export type SocketState = 'connecting' | 'open' | 'reconnecting' | 'closed';
+export type OutagePolicy = 'buffer' | 'drop';
+
+export interface ReconnectingEvent {
+  attempt: number;
+  delayMs: number;
+  reason: string;
+}
+
+export interface ReconnectedEvent {
+  attempts: number;
+  downtimeMs: number;
+  flushed: number;   // Buffered messages sent after reconnecting
+  dropped: number;   // Messages lost to the outage policy / buffer bound
+}
+
+export interface ReconnectFailedEvent {
+  attempts: number;
+  reason: string;
+}
+
+export interface LiveAvatarSocketOptions {
+  maxAttempts?: number;
+  initialDelayMs?: number;
+  maxDelayMs?: number;
+  outagePolicy?: OutagePolicy;
+  maxBufferedBytes?: number;
+}
+
+/**
+ * Parse LIVE_AVATAR_WS_OUTAGE ('buffer' or 'drop') - what happens to audio
+ * sent while the socket is reconnecting
+ */
+export function socketOptionsFromEnv(): LiveAvatarSocketOptions {
+  const policy = process.env.LIVE_AVATAR_WS_OUTAGE?.trim();
+  if (!policy) return {};
+  if (policy !== 'buffer' && policy !== 'drop') {
+    throw new Error(`Invalid LIVE_AVATAR_WS_OUTAGE: "${policy}" (expected buffer or drop)`);
+  }
+  return { outagePolicy: policy };
+}
+
+/** Handshake refused by the server - retrying the same URL won't help */
+class HandshakeRejectedError extends Error {
+  constructor(readonly statusCode: number) {
+    super(`WebSocket handshake rejected (HTTP ${statusCode})`);
+    this.name = 'HandshakeRejectedError';
+  }
+}
+
+export declare interface LiveAvatarSocket {
+  on(event: 'message', listener: (data: WebSocket.RawData) => void): this;
+  on(event: 'reconnecting', listener: (ev: ReconnectingEvent) => void): this;
+  on(event: 'reconnected', listener: (ev: ReconnectedEvent) => void): this;
+  on(event: 'reconnect_failed', listener: (ev: ReconnectFailedEvent) => void): this;
+  once(event: 'message', listener: (data: WebSocket.RawData) => void): this;
+  once(event: 'reconnecting', listener: (ev: ReconnectingEvent) => void): this;
+  once(event: 'reconnected', listener: (ev: ReconnectedEvent) => void): this;
+  once(event: 'reconnect_failed', listener: (ev: ReconnectFailedEvent) => void): this;
+}
+
+export class LiveAvatarSocket extends EventEmitter {
+  private ws: WebSocket | null = null;
+  private _state: SocketState = 'connecting';
+  private retryTimer?: NodeJS.Timeout;
+  private attempts = 0;
+  private downSince = 0;
+
+  private buffer: string[] = [];
+  private bufferedBytes = 0;
+  private dropped = 0;
+
+  private maxAttempts: number;
+  private initialDelayMs: number;
+  private maxDelayMs: number;
+  private outagePolicy: OutagePolicy;
+  private maxBufferedBytes: number;
+
+  private constructor(readonly url: string, options: LiveAvatarSocketOptions) {
+    super();
+    this.maxAttempts = options.maxAttempts ?? 5;
+    this.initialDelayMs = options.initialDelayMs ?? 500;
+    this.maxDelayMs = options.maxDelayMs ?? 8000;
+    this.outagePolicy = options.outagePolicy ?? 'buffer';
+    this.maxBufferedBytes = options.maxBufferedBytes ?? 512 * 1024;
+  }
+
+  /** Open the first connection. Rejects if that fails - reconnects only cover later drops. */
+  static async connect(url: string, options: LiveAvatarSocketOptions = {}): Promise<LiveAvatarSocket> {
+    const socket = new LiveAvatarSocket(url, options);
+    await socket.open();
+    socket._state = 'open';
+    return socket;
+  }
+
+  get state(): SocketState {
+    return this._state;
+  }
+
+  /**
+   * Send a JSON message, or buffer/drop it per outagePolicy while
+   * reconnecting. Returns false if the message was dropped.
+   */
+  send(message: object): boolean {
+    const data = JSON.stringify(message);
+    if (this._state === 'open' && this.ws?.readyState === WebSocket.OPEN) {
+      this.ws.send(data);
+      return true;
+    }
+
+    if (this._state === 'closed' || this.outagePolicy === 'drop') {
+      this.dropped++;
+      return false;
+    }
+
+    this.buffer.push(data);
+    this.bufferedBytes += data.length;
+    while (this.bufferedBytes > this.maxBufferedBytes && this.buffer.length > 0) {
+      this.bufferedBytes -= this.buffer.shift()!.length;
+      this.dropped++;
+    }
+    return true;
+  }
+
+  /** Close for good - no reconnects */
+  close(): void {
+    this._state = 'closed';
+    clearTimeout(this.retryTimer);
+    this.clearBuffer();
+    const ws = this.ws;
+    this.ws = null;
+    ws?.close();
+  }
+
+  private open(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const ws = new WebSocket(this.url);
+
+      ws.once('unexpected-response', (req, res) => {
+        req.destroy();
+        reject(new HandshakeRejectedError(res.statusCode ?? 0));
+      });
+      ws.on('error', reject);  // No-op once open - 'close' follows any later error
+
+      ws.once('open', () => {
+        if (this._state === 'closed') {
+          ws.close();
+          return reject(new Error('Socket closed while connecting'));
+        }
+        this.ws = ws;
+        ws.on('message', (data) => this.emit('message', data));
+        ws.on('close', (code, reason) => this.handleClose(ws, code, reason.toString()));
+        resolve();
+      });
+    });
+  }
+
+  private handleClose(ws: WebSocket, code: number, reason: string): void {
+    if (ws !== this.ws || this._state === 'closed') return;
+    this.ws = null;
+
+    if (code === 1000) {
+      return this.giveUp(`session ended by server${reason ? `: ${reason}` : ''}`);
+    }
+
+    this.downSince = Date.now();
+    this.attempts = 0;
+    this._state = 'reconnecting';
+    this.scheduleReconnect(`closed with code ${code}${reason ? ` (${reason})` : ''}`);
+  }
+
+  private scheduleReconnect(reason: string): void {
+    if (this.attempts >= this.maxAttempts) {
+      return this.giveUp(`${this.attempts} reconnect attempts failed, last: ${reason}`);
+    }
+
+    const backoff = Math.min(this.maxDelayMs, this.initialDelayMs * 2 ** this.attempts);
+    const delayMs = Math.round(backoff * (0.75 + Math.random() * 0.5));
+    this.attempts++;
+    this.emit('reconnecting', { attempt: this.attempts, delayMs, reason });
+
+    this.retryTimer = setTimeout(() => void this.reconnect(), delayMs);
+  }
+
+  private async reconnect(): Promise<void> {
+    try {
+      await this.open();
+    } catch (error) {
+      if (this._state === 'closed') return;
+      if (error instanceof HandshakeRejectedError && error.statusCode < 500) {
+        return this.giveUp(`session no longer accepts connections (HTTP ${error.statusCode})`);
+      }
+      return this.scheduleReconnect(error instanceof Error ? error.message : String(error));
+    }
+
+    this._state = 'open';
+    const flushed = this.buffer.length;
+    for (const data of this.buffer) this.ws!.send(data);
+    this.clearBuffer();
+
+    this.emit('reconnected', {
+      attempts: this.attempts,
+      downtimeMs: Date.now() - this.downSince,
+      flushed,
+      dropped: this.dropped,
+    });
+    this.attempts = 0;
+    this.dropped = 0;
+  }
+
+  private giveUp(reason: string): void {
+    this._state = 'closed';
+    this.clearBuffer();
+    this.emit('reconnect_failed', { attempts: this.attempts, reason });
+  }
+
+  private clearBuffer(): void {
+    this.buffer = [];
+    this.bufferedBytes = 0;
+  }
+}
@@ -0,0 +1,314 @@
+/**
+ * LiveAvatarSpeechScheduler - One avatar utterance at a time
+ *
+ * Each ttsNode() call becomes an utterance with its own event_id. Without
+ * a scheduler, overlapping TTS streams interleave their `agent.speak`
+ * chunks and the avatar talks over itself. The scheduler queues utterances
+ * and only hands the avatar to the next one after LiveAvatar reports
+ * `agent.speak_ended` for the current one.
+ *
+ * States:
+ * - idle     - nothing queued, avatar is free
+ * - sending  - the active utterance is still streaming audio
+ * - draining - all audio sent (`agent.speak_end`), waiting for the avatar to finish
+ *
+ * Pacing: audio goes out close to real time instead of in one burst. The
+ * first `leadMs` of each utterance is sent immediately to fill the avatar's
+ * jitter buffer, after that each chunk waits until it is no more than
+ * `leadMs` ahead of playback. Lower lead = faster interrupts and less
+ * queued on the avatar, higher lead = more slack for network jitter.
+ */
+
+import { EventEmitter } from 'events';
+import crypto from 'crypto';
+
+export const LIVE_AVATAR_SAMPLE_RATE = 24000;
+export const DEFAULT_LEAD_MS = 300;
+
+/** Pacing lead from LIVE_AVATAR_LEAD_MS ('0' is valid, 'off' disables pacing) */
+export function leadMsFromEnv(): number {
+  const raw = process.env.LIVE_AVATAR_LEAD_MS;
+  if (raw === 'off') return Infinity;
+  const value = Number(raw);
+  return raw && Number.isFinite(value) && value >= 0 ? value : DEFAULT_LEAD_MS;
+}
+
+export type SpeechState = 'idle' | 'sending' | 'draining';
+
+export interface SpeechStateChangedEvent {
+  oldState: SpeechState;
+  newState: SpeechState;
+  eventId: string | null;
+}
+
+export interface UtteranceDoneEvent {
+  eventId: string;
+  audioMs: number;
+  timedOut: boolean;  // Released by drain timeout instead of agent.speak_ended
+}
+
+export interface SpeechInterruptedEvent {
+  eventId: string | null;  // Active event_id that got agent.interrupt, if it had spoken
+  dropped: number;         // Utterances discarded (active + queued)
+}
+
+export interface LiveAvatarOutboundMessage {
+  type: string;
+  event_id: string;
+  audio?: string;
+}
+
+export interface SpeechSchedulerOptions {
+  /**
+   * Extra time to wait for `agent.speak_ended` past the audio we sent before
+   * giving up and releasing the next utterance anyway.
+   */
+  drainGraceMs?: number;
+  /**
+   * How far ahead of real-time playback audio may be sent. Infinity sends
+   * everything as soon as the TTS yields it (no pacing).
+   */
+  leadMs?: number;
+}
+
+/** Handle returned to a ttsNode for pushing its audio */
+export class Utterance {
+  readonly eventId = crypto.randomUUID();
+  /** @internal */ pending: Int16Array[] = [];
+  /** @internal */ ended = false;
+  /** @internal */ cancelled = false;
+  /** @internal */ interrupted = false;
+  /** @internal */ sentSamples = 0;
+  /** @internal */ firstSentAt = 0;
+
+  constructor(private scheduler: LiveAvatarSpeechScheduler) {}
+
+  /** Queue 24kHz mono PCM for this utterance */
+  push(pcm: Int16Array): void {
+    if (this.ended || this.cancelled || pcm.length === 0) return;
+    this.pending.push(pcm);
+    this.scheduler.pump();
+  }
+
+  /** No more audio - send `agent.speak_end` once this utterance is active */
+  end(): void {
+    if (this.ended || this.cancelled) return;
+    this.ended = true;
+    this.scheduler.pump();
+  }
+
+  /** Drop this utterance (TTS failed or was cancelled) */
+  cancel(): void {
+    if (this.cancelled) return;
+    this.cancelled = true;
+    this.pending = [];
+    this.scheduler.pump();
+  }
+
+  /** True once barge-in dropped this utterance - stop feeding it audio */
+  get isInterrupted(): boolean {
+    return this.interrupted;
+  }
+
+  get audioMs(): number {
+    return (this.sentSamples / LIVE_AVATAR_SAMPLE_RATE) * 1000;
+  }
+
+  /** All audio pushed and sent - audioMs is final */
+  get fullySent(): boolean {
+    return this.ended && this.pending.length === 0;
+  }
+}
+
+export declare interface LiveAvatarSpeechScheduler {
+  on(event: 'state_changed', listener: (ev: SpeechStateChangedEvent) => void): this;
+  on(event: 'utterance_done', listener: (ev: UtteranceDoneEvent) => void): this;
+  on(event: 'interrupted', listener: (ev: SpeechInterruptedEvent) => void): this;
+  once(event: 'state_changed', listener: (ev: SpeechStateChangedEvent) => void): this;
+  once(event: 'utterance_done', listener: (ev: UtteranceDoneEvent) => void): this;
+  once(event: 'interrupted', listener: (ev: SpeechInterruptedEvent) => void): this;
+}
+
+export class LiveAvatarSpeechScheduler extends EventEmitter {
+  private queue: Utterance[] = [];
+  private active: Utterance | null = null;
+  private _state: SpeechState = 'idle';
+  private drainTimer?: NodeJS.Timeout;
+  private paceTimer?: NodeJS.Timeout;
+  private drainGraceMs: number;
+  private leadMs: number;
+
+  constructor(
+    private send: (message: LiveAvatarOutboundMessage) => void,
+    options: SpeechSchedulerOptions = {},
+  ) {
+    super();
+    this.drainGraceMs = options.drainGraceMs ?? 2000;
+    this.leadMs = options.leadMs ?? DEFAULT_LEAD_MS;
+  }
+
+  get state(): SpeechState {
+    return this._state;
+  }
+
+  get activeEventId(): string | null {
+    return this.active?.eventId ?? null;
+  }
+
+  /** Utterances waiting behind the active one */
+  get queued(): number {
+    return this.queue.length;
+  }
+
+  createUtterance(): Utterance {
+    const utterance = new Utterance(this);
+    this.queue.push(utterance);
+    this.pump();
+    return utterance;
+  }
+
+  /**
+   * Feed every parsed LiveAvatar WebSocket message through here.
+   * Only `agent.speak_ended` for the active event_id matters.
+   */
+  handleServerEvent(message: { type?: string; event_id?: string }): void {
+    if (
+      message.type === 'agent.speak_ended' &&
+      this.active &&
+      this._state === 'draining' &&
+      (!message.event_id || message.event_id === this.active.eventId)
+    ) {
+      this.release(false);
+    }
+  }
+
+  /**
+   * Barge-in: stop the avatar mid-sentence and drop everything queued.
+   * Sends `agent.interrupt` for the active event_id if it already spoke.
+   */
+  interrupt(): void {
+    const active = this.active;
+    const dropped = [...this.queue, ...(active ? [active] : [])];
+    if (dropped.length === 0) return;
+
+    for (const utterance of dropped) {
+      utterance.cancelled = true;
+      utterance.interrupted = true;
+      utterance.pending = [];
+    }
+    this.queue = [];
+
+    let eventId: string | null = null;
+    if (active) {
+      if (active.sentSamples > 0) {
+        eventId = active.eventId;
+        this.send({ type: 'agent.interrupt', event_id: active.eventId });
+      }
+      this.clearTimers();
+      this.active = null;
+    }
+
+    this.emit('interrupted', { eventId, dropped: dropped.length });
+    this.setState('idle');
+  }
+
+  /** Resolves once nothing is sending, draining or queued */
+  waitForIdle(): Promise<void> {
+    if (this._state === 'idle' && this.queue.length === 0) return Promise.resolve();
+    return new Promise((resolve) => {
+      const onState = (ev: SpeechStateChangedEvent) => {
+        if (ev.newState === 'idle' && this.queue.length === 0) {
+          this.off('state_changed', onState);
+          resolve();
+        }
+      };
+      this.on('state_changed', onState);
+    });
+  }
+
+  /** @internal Called by Utterance whenever it has something new */
+  pump(): void {
+    // Drop cancelled utterances that never got the avatar
+    this.queue = this.queue.filter((u) => !u.cancelled);
+
+    if (!this.active) {
+      const next = this.queue.shift();
+      if (!next) return this.setState('idle');
+      this.active = next;
+      this.setState('sending');
+    }
+
+    const utterance = this.active;
+    if (this._state !== 'sending') return;
+
+    if (utterance.cancelled && utterance.sentSamples === 0) {
+      return this.release(false);
+    }
+
+    while (utterance.pending.length > 0) {
+      if (utterance.sentSamples > 0) {
+        // Hold the chunk until playback is within leadMs of it
+        const aheadMs = utterance.audioMs - (Date.now() - utterance.firstSentAt);
+        if (aheadMs > this.leadMs) {
+          if (!this.paceTimer) {
+            this.paceTimer = setTimeout(() => {
+              this.paceTimer = undefined;
+              this.pump();
+            }, aheadMs - this.leadMs);
+          }
+          return;
+        }
+      } else {
+        utterance.firstSentAt = Date.now();
+        this.send({ type: 'agent.speak_started', event_id: utterance.eventId });
+      }
+
+      const pcm = utterance.pending.shift()!;
+      this.send({
+        type: 'agent.speak',
+        event_id: utterance.eventId,
+        audio: Buffer.from(pcm.buffer, pcm.byteOffset, pcm.byteLength).toString('base64'),
+      });
+      utterance.sentSamples += pcm.length;
+    }
+
+    if (utterance.ended || utterance.cancelled) {
+      // Nothing was ever spoken - the avatar won't send speak_ended
+      if (utterance.sentSamples === 0) return this.release(false);
+
+      this.send({ type: 'agent.speak_end', event_id: utterance.eventId });
+      this.setState('draining');
+
+      const playoutEndsAt = utterance.firstSentAt + utterance.audioMs;
+      const waitMs = Math.max(0, playoutEndsAt - Date.now()) + this.drainGraceMs;
+      this.drainTimer = setTimeout(() => this.release(true), waitMs);
+    }
+  }
+
+  private release(timedOut: boolean): void {
+    const utterance = this.active;
+    if (!utterance) return;
+
+    this.clearTimers();
+    this.active = null;
+
+    if (utterance.sentSamples > 0) {
+      this.emit('utterance_done', { eventId: utterance.eventId, audioMs: utterance.audioMs, timedOut });
+    }
+    this.pump();
+  }
+
+  private clearTimers(): void {
+    clearTimeout(this.drainTimer);
+    clearTimeout(this.paceTimer);
+    this.drainTimer = undefined;
+    this.paceTimer = undefined;
+  }
+
+  private setState(newState: SpeechState): void {
+    if (newState === this._state) return;
+    const oldState = this._state;
+    this._state = newState;
+    this.emit('state_changed', { oldState, newState, eventId: this.activeEventId });
+  }
+}
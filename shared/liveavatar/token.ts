@@ -0,0 +1,104 @@
+/**
+ * buildAvatarToken - The LiveKit token a LiveAvatar joins the room with
+ *
+ * What LiveAvatar needs from it:
+ * - roomJoin + canSubscribe - it joins the room and listens
+ * - canPublish - its video and audio tracks (camera + microphone if sources are restricted)
+ * - canPublishData - without it /v1/sessions/start fails with a 500
+ * - kind 'agent' - so the room treats it as part of the agent, not a user
+ * - lk.publish_on_behalf - links its tracks to the agent participant
+ *
+ * The token has to stay valid for the whole session: the avatar reconnects
+ * with the same token after a network blip, and an expired one can't rejoin.
+ */
+
+import { AccessToken, TrackSource, type VideoGrant } from 'livekit-server-sdk';
+import { LiveAvatarTokenError } from './errors.js';
+
+export const AVATAR_IDENTITY = 'liveavatar-bot';
+export const AVATAR_NAME = 'LiveAvatar';
+export const ATTRIBUTE_PUBLISH_ON_BEHALF = 'lk.publish_on_behalf';
+
+/** Longest session the token is valid for unless told otherwise */
+export const DEFAULT_MAX_SESSION_MS = 2 * 60 * 60_000;
+// On top of the session length - clock skew, time spent creating the session
+const TOKEN_TTL_MARGIN_MS = 5 * 60_000;
+
+/** Grants LiveAvatar can't work without, and what breaks if one is missing */
+export const REQUIRED_AVATAR_GRANTS = {
+  roomJoin: 'it can\'t join the room',
+  canSubscribe: 'it can\'t hear the room',
+  canPublish: 'it can\'t publish its video and audio',
+  canPublishData: 'LiveAvatar fails to start the session (500)',
+} as const satisfies Partial<Record<keyof VideoGrant, string>>;
+
+export interface AvatarTokenOptions {
+  roomName: string;
+  identity?: string;          // Defaults to AVATAR_IDENTITY
+  name?: string;              // Defaults to AVATAR_NAME
+  publishOnBehalf?: string;   // Agent identity the avatar publishes for
+  maxSessionMs?: number;      // Token outlives this (plus a margin) - defaults to 2 hours
+  grants?: Partial<VideoGrant>;  // Extra grants; the required ones can't be turned off
+  apiKey?: string;            // Defaults to LIVEKIT_API_KEY
+  apiSecret?: string;         // Defaults to LIVEKIT_API_SECRET
+}
+
+export async function buildAvatarToken(options: AvatarTokenOptions): Promise<string> {
+  const maxSessionMs = options.maxSessionMs ?? DEFAULT_MAX_SESSION_MS;
+  if (!Number.isFinite(maxSessionMs) || maxSessionMs <= 0) {
+    throw new LiveAvatarTokenError(`maxSessionMs must be a positive number of ms, got ${maxSessionMs}`);
+  }
+
+  const grant: VideoGrant = {
+    ...options.grants,
+    room: options.roomName,
+    roomJoin: true,
+    canSubscribe: true,
+    canPublish: true,
+    canPublishData: true,
+  };
+  validateAvatarGrant(grant, options.grants);
+
+  const token = new AccessToken(
+    options.apiKey ?? process.env.LIVEKIT_API_KEY,
+    options.apiSecret ?? process.env.LIVEKIT_API_SECRET,
+  );
+  token.identity = options.identity ?? AVATAR_IDENTITY;
+  token.name = options.name ?? AVATAR_NAME;
+  token.kind = 'agent';
+  // As a string - a number is taken as an absolute expiry timestamp
+  token.ttl = `${Math.ceil((maxSessionMs + TOKEN_TTL_MARGIN_MS) / 1000)}s`;
+  if (options.publishOnBehalf) {
+    token.attributes = { [ATTRIBUTE_PUBLISH_ON_BEHALF]: options.publishOnBehalf };
+  }
+  token.addGrant(grant);
+
+  return token.toJwt();
+}
+
+/**
+ * Throws LiveAvatarTokenError naming every problem at once - a required
+ * grant the caller turned off, missing room, or a restriction that keeps
+ * the avatar from publishing camera + microphone or from being seen.
+ */
+function validateAvatarGrant(grant: VideoGrant, requested: Partial<VideoGrant> = {}): void {
+  const problems: string[] = [];
+
+  if (!grant.room) problems.push('no room - the token must be scoped to the avatar\'s room');
+  for (const [key, consequence] of Object.entries(REQUIRED_AVATAR_GRANTS)) {
+    if (requested[key as keyof VideoGrant] === false) problems.push(`${key}: false - ${consequence}`);
+  }
+
+  const sources = grant.canPublishSources;
+  if (sources?.length) {
+    const missing = [TrackSource.CAMERA, TrackSource.MICROPHONE].filter((s) => !sources.includes(s));
+    if (missing.length > 0) {
+      problems.push(`canPublishSources leaves out ${missing.map((s) => TrackSource[s]).join(' and ')} - the avatar can't publish its tracks`);
+    }
+  }
+  if (grant.hidden) problems.push('hidden: true - nobody in the room would see the avatar');
+
+  if (problems.length > 0) {
+    throw new LiveAvatarTokenError(`Refusing to build avatar token:\n  - ${problems.join('\n  - ')}`);
+  }
+}
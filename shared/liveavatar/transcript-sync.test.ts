@@ -0,0 +1,102 @@
+import { voice } from '@livekit/agents';
+import assert from 'node:assert/strict';
+import { EventEmitter } from 'node:events';
+import { describe, it } from 'node:test';
+import { ReadableStream } from 'stream/web';
+import { LiveAvatarEvents } from './events.js';
+import { LiveAvatarSpeechScheduler, type Utterance } from './speech-scheduler.js';
+import { AvatarTranscriptSync } from './transcript-sync.js';
+
+const TEXT = 'Hello there, how can I help? ';
+
+function setup() {
+  const speech = new LiveAvatarSpeechScheduler(() => {});
+  const transcripts = new AvatarTranscriptSync(new LiveAvatarEvents(), speech, { trackTimeoutMs: 100 });
+  return { speech, transcripts };
+}
+
+function textStream(text: string): ReadableStream<string> {
+  return new ReadableStream<string>({
+    start(controller) {
+      controller.enqueue(text);
+      controller.close();
+    },
+  });
+}
+
+async function readAll(stream: ReadableStream<string>): Promise<string> {
+  let text = '';
+  for await (const chunk of stream) text += chunk;
+  return text;
+}
+
+/** Ended without audio - its captions go out at once */
+function playedOut(speech: LiveAvatarSpeechScheduler): Utterance {
+  const utterance = speech.createUtterance();
+  utterance.end();
+  return utterance;
+}
+
+/** Dropped before it played - it never gets captions */
+function dropped(speech: LiveAvatarSpeechScheduler): Utterance {
+  const utterance = speech.createUtterance();
+  utterance.cancel();
+  return utterance;
+}
+
+describe('AvatarTranscriptSync', () => {
+  it('pairs captions with their own speech when one track() is skipped', async () => {
+    const { speech, transcripts } = setup();
+
+    // s1 is a text-only reply: its ttsNode never ran
+    transcripts.track(playedOut(speech), 's2');
+    transcripts.track(dropped(speech), 's3');
+
+    const [s1, s2, s3] = await Promise.all([
+      readAll(transcripts.sync(textStream(TEXT), 's1')),
+      readAll(transcripts.sync(textStream(TEXT), 's2')),
+      readAll(transcripts.sync(textStream(TEXT), 's3')),
+    ]);
+    assert.equal(s1, TEXT, 's1 has no utterance - passed through unpaced');
+    assert.equal(s2, TEXT, 's2 played out');
+    assert.equal(s3, '', 's3 was dropped');
+  });
+
+  it('waits for a track() that comes after sync()', async () => {
+    const { speech, transcripts } = setup();
+
+    const s1 = readAll(transcripts.sync(textStream(TEXT), 's1'));
+    const s2 = readAll(transcripts.sync(textStream(TEXT), 's2'));
+    transcripts.track(dropped(speech), 's2');
+    transcripts.track(playedOut(speech), 's1');
+
+    assert.equal(await s1, TEXT);
+    assert.equal(await s2, '');
+  });
+
+  it('gives each watched speech its own id in both nodes', async () => {
+    const { speech, transcripts } = setup();
+    const session = new EventEmitter();
+    const detach = transcripts.watch(session as unknown as voice.AgentSession);
+
+    // What the session does per speech: emit SpeechCreated, then start the speech's task
+    const runSpeech = (id: string, utterance: Utterance) => {
+      session.emit(voice.AgentSessionEventTypes.SpeechCreated, {
+        speechHandle: { id, addDoneCallback: () => {} },
+      });
+      return (async () => {
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        const captions = readAll(transcripts.sync(textStream(TEXT)));
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        transcripts.track(utterance);
+        return captions;
+      })();
+    };
+
+    const played = runSpeech('s1', playedOut(speech));
+    const interrupted = runSpeech('s2', dropped(speech));
+    assert.equal(await played, TEXT);
+    assert.equal(await interrupted, '');
+    detach();
+  });
+});
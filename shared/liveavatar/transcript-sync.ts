@@ -0,0 +1,239 @@
+/**
+ * AvatarTranscriptSync - Agent captions timed to the avatar's lips
+ *
+ * The session publishes agent transcriptions (lk.transcription text
+ * streams) as fast as the text arrives, and its own synchronizer paces
+ * them to the room audio track - which is empty once audio goes to
+ * LiveAvatar. This paces each speech's text to the avatar instead:
+ *
+ * - the clock starts at `agent.speak_started` for the utterance carrying
+ *   that speech's audio (first `agent.speak` sent, if it never arrives)
+ * - words are released at the avatar's speaking rate: the standard rate
+ *   until all of the utterance's audio is sent, then exactly
+ *   text length / audio duration
+ * - whatever is left goes out at once when the utterance is done playing,
+ *   and nothing more after a barge-in
+ *
+ * ttsNode registers each speech with track() (null when its audio isn't
+ * going to the avatar), transcriptionNode wraps its text with sync(). They
+ * pair up by speech id, not by order - either node can be skipped (text-only
+ * replies, barge-in before TTS starts), so a queue would shift every later
+ * caption onto the wrong utterance. watch() makes the id of the speech a
+ * node runs for available to both, the way the framework tracks its own
+ * current speech. The session needs `syncTranscription: false` so it doesn't
+ * pace them again.
+ */
+
+import { tokenize, voice } from '@livekit/agents';
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { ReadableStream } from 'stream/web';
+import type { LiveAvatarEvents } from './events.js';
+import type { LiveAvatarSpeechScheduler, Utterance } from './speech-scheduler.js';
+
+// Hyphens per second - same estimate the framework's synchronizer uses
+const STANDARD_SPEECH_RATE = 3.83;
+
+// transcriptionNode can run before its ttsNode - how long to wait for track()
+const TRACK_TIMEOUT_MS = 5000;
+const POLL_MS = 50;
+
+export interface TranscriptSyncOptions {
+  /** Speaking rate multiplier before the utterance's real duration is known */
+  speed?: number;
+  /** How long sync() waits for its speech's track() before passing text through unpaced */
+  trackTimeoutMs?: number;
+}
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+const countHyphens = (word: string) => Math.max(1, tokenize.basic.hyphenateWord(word).length);
+
+export class AvatarTranscriptSync {
+  // Speech id of the speech task the caller runs in - set by watch()
+  private currentSpeech = new AsyncLocalStorage<string>();
+  // By speech id: track()ed before sync() claimed it, and sync() waiting for track()
+  private tracked = new Map<string, Utterance | null>();
+  private waiting = new Map<string, (utterance: Utterance | null) => void>();
+  private startedAt = new Map<string, number>();
+  private doneIds = new Set<string>();
+  private speed: number;
+  private trackTimeoutMs: number;
+
+  constructor(
+    events: LiveAvatarEvents,
+    speech: LiveAvatarSpeechScheduler,
+    options: TranscriptSyncOptions = {},
+  ) {
+    this.speed = options.speed ?? 1;
+    this.trackTimeoutMs = options.trackTimeoutMs ?? TRACK_TIMEOUT_MS;
+    events.on('agent.speak_started', ({ event_id }) => {
+      if (event_id && !this.startedAt.has(event_id)) this.startedAt.set(event_id, Date.now());
+    });
+    speech.on('utterance_done', ({ eventId }) => this.doneIds.add(eventId));
+  }
+
+  /**
+   * Tag every speech the session creates with its id. SpeechCreated is
+   * emitted right before the speech's task is created, so the id carries
+   * into both of its nodes. Returns a function that detaches the listener.
+   */
+  watch(session: voice.AgentSession): () => void {
+    const onSpeechCreated = ({ speechHandle }: voice.SpeechCreatedEvent) => {
+      this.currentSpeech.enterWith(speechHandle.id);
+      // A speech that never reached one of the nodes leaves nothing behind
+      speechHandle.addDoneCallback(() => this.tracked.delete(speechHandle.id));
+    };
+    session.on(voice.AgentSessionEventTypes.SpeechCreated, onSpeechCreated);
+    return () => session.off(voice.AgentSessionEventTypes.SpeechCreated, onSpeechCreated);
+  }
+
+  /**
+   * ttsNode: the utterance this speech's audio goes to, or null if it plays
+   * elsewhere. Ignored outside a watched speech - its captions go out unpaced.
+   */
+  track(utterance: Utterance | null, speechId = this.currentSpeech.getStore()): void {
+    if (speechId === undefined) return;
+    const resolve = this.waiting.get(speechId);
+    if (resolve) resolve(utterance);
+    else this.tracked.set(speechId, utterance);
+  }
+
+  /** transcriptionNode: the same text, released as the avatar speaks it */
+  sync(text: ReadableStream<string>, speechId = this.currentSpeech.getStore()): ReadableStream<string> {
+    const reader = text.getReader();
+    let buffered = '';
+    let textDone = false;
+    let cancelled = false;
+
+    const readText = async () => {
+      try {
+        while (!cancelled) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          buffered += value;
+        }
+      } finally {
+        textDone = true;
+        reader.releaseLock();
+      }
+    };
+
+    return new ReadableStream<string>({
+      start: (controller) => {
+        const reading = readText();
+        const pacing = (async () => {
+          const utterance = speechId === undefined ? null : await this.claim(speechId);
+          if (!utterance) {
+            // Not on the avatar - pass through unpaced
+            while (!cancelled && !(textDone && buffered === '')) {
+              if (buffered) controller.enqueue(buffered);
+              buffered = '';
+              if (!textDone) await sleep(POLL_MS);
+            }
+            return;
+          }
+          await this.pace(utterance, {
+            next: () => nextWord(buffered, textDone),
+            take: (word) => {
+              buffered = buffered.slice(word.length);
+              controller.enqueue(word);
+            },
+            remainingHyphens: () => textDone ? countTextHyphens(buffered) : null,
+            cancelled: () => cancelled,
+          });
+          this.startedAt.delete(utterance.eventId);
+          this.doneIds.delete(utterance.eventId);
+        })();
+
+        Promise.all([reading, pacing]).then(
+          () => { if (!cancelled) controller.close(); },
+          (error) => { if (!cancelled) controller.error(error); },
+        );
+      },
+      cancel: (reason) => {
+        cancelled = true;
+        void reader.cancel(reason).catch(() => {});
+      },
+    });
+  }
+
+  /** Release words as the avatar reaches them */
+  private async pace(
+    utterance: Utterance,
+    text: {
+      next: () => string | null;
+      take: (word: string) => void;
+      /** Hyphens not yet released, once the text is complete (null before) */
+      remainingHyphens: () => number | null;
+      cancelled: () => boolean;
+    },
+  ): Promise<void> {
+    let releasedHyphens = 0;
+
+    while (!text.cancelled()) {
+      // Barge-in (or TTS failure): the user never hears the rest, so it's never captioned
+      if (utterance.isInterrupted || utterance.cancelled) return;
+
+      const word = text.next();
+      if (word === null) {
+        if (text.remainingHyphens() !== null) return;  // All text released
+        await sleep(POLL_MS);
+        continue;
+      }
+
+      // Done playing (or there was no audio at all) - nothing left to wait for
+      const playedOut = this.doneIds.has(utterance.eventId) || (utterance.fullySent && utterance.audioMs === 0);
+      if (!playedOut) {
+        const startedAt = this.startedAt.get(utterance.eventId) ?? (utterance.firstSentAt || null);
+        const remaining = text.remainingHyphens();
+        // Hyphens per ms: exact once both the text and the audio are complete
+        const rate = utterance.fullySent && remaining !== null && utterance.audioMs > 0
+          ? (releasedHyphens + remaining) / utterance.audioMs
+          : (STANDARD_SPEECH_RATE * this.speed) / 1000;
+
+        // Show each word halfway through saying it
+        const dueAt = startedAt === null
+          ? Infinity
+          : startedAt + (releasedHyphens + countHyphens(word) / 2) / rate;
+        if (Date.now() < dueAt) {
+          await sleep(Math.min(POLL_MS, dueAt - Date.now()));
+          continue;
+        }
+      }
+
+      releasedHyphens += countHyphens(word);
+      text.take(word);
+    }
+  }
+
+  private claim(speechId: string): Promise<Utterance | null> {
+    if (this.tracked.has(speechId)) {
+      const utterance = this.tracked.get(speechId)!;
+      this.tracked.delete(speechId);
+      return Promise.resolve(utterance);
+    }
+
+    return new Promise((resolve) => {
+      const settle = (utterance: Utterance | null) => {
+        clearTimeout(timer);
+        this.waiting.delete(speechId);
+        resolve(utterance);
+      };
+      // No audio for this speech (text-only reply, TTS never started)
+      const timer = setTimeout(() => settle(null), this.trackTimeoutMs);
+      this.waiting.set(speechId, settle);
+    });
+  }
+}
+
+/** Next complete word with its trailing whitespace, or null if it may still grow */
+function nextWord(text: string, textDone: boolean): string | null {
+  const complete = text.match(/^\s*\S+\s+/);
+  if (complete) return complete[0];
+  if (textDone && text.length > 0) return text;
+  return null;
+}
+
+function countTextHyphens(text: string): number {
+  return text.split(/\s+/).filter(Boolean).reduce((sum, word) => sum + countHyphens(word), 0);
+}
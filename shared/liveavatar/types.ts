@@ -0,0 +1,85 @@
+/**
+ * Request and response shapes for the LiveAvatar REST API
+ *
+ * Only the fields this repo actually reads are typed. Everything LiveAvatar
+ * returns is wrapped in the same `{ code, data, message }` envelope.
+ */
+
+export interface LiveAvatarEnvelope<T> {
+  code?: number;
+  message?: string;
+  data: T;
+}
+
+// =============================================================================
+// AVATARS
+// =============================================================================
+
+export type LiveAvatarStatus = 'ACTIVE' | 'INACTIVE' | 'PROCESSING' | (string & {});
+
+export interface LiveAvatar {
+  id: string;
+  name: string;
+  status: LiveAvatarStatus;
+  preview_url?: string;
+  default_voice?: string;
+}
+
+export type LiveAvatarListResponse = LiveAvatarEnvelope<{
+  count?: number;
+  next?: string | null;
+  results: LiveAvatar[];
+}>;
+
+// =============================================================================
+// SESSIONS
+// =============================================================================
+
+export type LiveAvatarMode = 'CUSTOM' | 'FULL';
+
+export interface LiveAvatarLiveKitConfig {
+  livekit_url: string;
+  livekit_room: string;
+  livekit_client_token: string;
+}
+
+/** POST /v1/sessions/token */
+export interface CreateSessionTokenRequest {
+  mode: LiveAvatarMode;
+  avatar_id: string;
+  livekit_config?: LiveAvatarLiveKitConfig;
+}
+
+export type LiveAvatarSessionResponse = LiveAvatarEnvelope<{
+  session_id: string;
+  session_token: string;
+}>;
+
+/** POST /v1/sessions/start (authorized with the session token, empty body) */
+export type LiveAvatarStartResponse = LiveAvatarEnvelope<{
+  session_id: string;
+  ws_url?: string;
+  livekit_url?: string;
+  livekit_client_token?: string;
+}>;
+
+/**
+ * Why a session was stopped. USER_CLOSED is the one value the API is known
+ * to accept - the others are retried as USER_CLOSED if it rejects them.
+ */
+export type LiveAvatarStopReason =
+  | 'USER_CLOSED'       // The user left
+  | 'AGENT_SHUTDOWN'    // Job shutdown, SIGINT/SIGTERM, or the agent ending its session
+  | 'AGENT_ERROR'       // The agent session closed on an unrecoverable error
+  | 'ROOM_CLOSED'       // Room deleted, or the agent removed from it
+  | 'CONNECTION_LOST'   // WebSocket couldn't be (re)established - replaced by a new session
+  | 'ORPHANED'          // Outlived the agent that started it - stopped by the reaper
+  | (string & {});
+
+/** POST /v1/sessions/stop */
+export interface StopSessionRequest {
+  session_id: string;
+  reason: LiveAvatarStopReason;
+}
+
+export type LiveAvatarStopResponse = LiveAvatarEnvelope<unknown>;
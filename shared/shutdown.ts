@@ -0,0 +1,68 @@
+/**
+ * Shutdown helpers - Cleanup that survives Ctrl+C and can't hang
+ *
+ * LiveAvatar sessions and LiveKit rooms outlive the process that created
+ * them: whatever isn't stopped / deleted on the way out keeps running (and
+ * billing) until it times out server-side. Cleanup here runs once, however
+ * the process ends, and is bounded by a timeout so a hung API call can't
+ * keep it from exiting.
+ */
+
+export const SHUTDOWN_TIMEOUT_MS = 5000;
+
+const SIGNAL_EXIT_CODES = { SIGINT: 130, SIGTERM: 143 } as const;
+type ShutdownSignal = keyof typeof SIGNAL_EXIT_CODES;
+
+/**
+ * Wait for `task`, but no longer than `timeoutMs`. Never throws - failures
+ * and timeouts are logged and resolve false.
+ */
+export async function settleWithin(task: Promise<unknown>, timeoutMs: number, label: string): Promise<boolean> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<'timeout'>((resolve) => {
+    timer = setTimeout(() => resolve('timeout'), timeoutMs);
+  });
+
+  try {
+    if (await Promise.race([task.then(() => 'done' as const), timeout]) === 'timeout') {
+      console.warn(`⏱️  ${label} timed out after ${timeoutMs}ms`);
+      return false;
+    }
+    return true;
+  } catch (error) {
+    console.error(`⚠️  ${label} failed:`, error);
+    return false;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * For scripts: run `cleanup` once - either from the returned function
+ * (call it in `finally`) or on SIGINT / SIGTERM, which then exit the
+ * process. A second Ctrl+C while cleanup runs exits right away.
+ */
+export function cleanupOnExit(
+  cleanup: () => Promise<void>,
+  timeoutMs = SHUTDOWN_TIMEOUT_MS,
+): () => Promise<void> {
+  let running: Promise<void> | null = null;
+
+  const run = () => {
+    running ??= (async () => {
+      for (const signal of Object.keys(SIGNAL_EXIT_CODES)) process.off(signal, onSignal);
+      await settleWithin(cleanup(), timeoutMs, 'Cleanup');
+    })();
+    return running;
+  };
+
+  const onSignal = async (signal: ShutdownSignal) => {
+    console.log(`\n🛑 ${signal} received - cleaning up`);
+    await run();
+    process.exit(SIGNAL_EXIT_CODES[signal]);
+  };
+
+  process.once('SIGINT', onSignal);
+  process.once('SIGTERM', onSignal);
+  return run;
+}
@@ -11,6 +11,12 @@
 import 'dotenv/config';
 import { RoomServiceClient, AccessToken } from 'livekit-server-sdk';
 import { createInterface } from 'readline';
+import { resolveAvatar } from '../../shared/liveavatar/avatars.js';
+import { LiveAvatarClient } from '../../shared/liveavatar/client.js';
+import { LiveAvatarHttpError } from '../../shared/liveavatar/errors.js';
+import { buildAvatarToken } from '../../shared/liveavatar/token.js';
+import type { CreateSessionTokenRequest } from '../../shared/liveavatar/types.js';
+import { cleanupOnExit } from '../../shared/shutdown.js';
 
 // =============================================================================
 // CONFIGURATION
@@ -32,6 +38,12 @@ function waitForEnter(): Promise<void> {
     output: process.stdout,
   });
 
+  // readline swallows Ctrl+C - pass it on so the cleanup handler runs
+  rl.on('SIGINT', () => {
+    rl.close();
+    process.kill(process.pid, 'SIGINT');
+  });
+
   return new Promise((resolve) => {
     rl.question('', () => {
       rl.close();
@@ -65,9 +77,42 @@ async function main() {
 
   validateConfig();
 
+  const liveAvatar = new LiveAvatarClient({ apiKey: CONFIG.LIVE_AVATAR_API_KEY });
   let roomName = '';
   let sessionId = '';
 
+  // Runs from finally, or on Ctrl+C / SIGTERM - the room and avatar session outlive this script otherwise
+  const cleanup = cleanupOnExit(async () => {
+    console.log('\n🧹 Cleanup');
+
+    if (sessionId) {
+      try {
+        console.log(`Stopping LiveAvatar session ${sessionId}...`);
+        await liveAvatar.stopSession(sessionId, 'USER_CLOSED');
+        console.log('✅ LiveAvatar session stopped');
+      } catch (error) {
+        console.log('⚠️  Error stopping LiveAvatar session:', error);
+      }
+    }
+
+    if (roomName) {
+      try {
+        console.log(`Deleting LiveKit room ${roomName}...`);
+        const roomService = new RoomServiceClient(
+          CONFIG.LIVEKIT_URL,
+          CONFIG.LIVEKIT_API_KEY,
+          CONFIG.LIVEKIT_API_SECRET
+        );
+        await roomService.deleteRoom(roomName);
+        console.log('✅ LiveKit room deleted');
+      } catch (error) {
+        console.log('⚠️  Error deleting room:', error);
+      }
+    }
+
+    console.log('✅ Cleanup complete\n');
+  });
+
   try {
     console.log('📦 Step 1: Creating LiveKit Room');
 
@@ -120,49 +165,20 @@ async function main() {
     await waitForEnter();
     console.log('✅ Room verified! Proceeding with LiveAvatar test...\n');
 
-    console.log('🎭 Step 4: Fetching Available Avatar');
+    console.log('🎭 Step 4: Picking Avatar (LIVE_AVATAR_ID - ID, name or pattern - or first ACTIVE)');
 
-    const avatarsResponse = await fetch('https://api.liveavatar.com/v1/avatars/public', {
-      headers: { 'X-API-KEY': CONFIG.LIVE_AVATAR_API_KEY },
-    });
-
-    if (!avatarsResponse.ok) {
-      throw new Error(`Failed to fetch avatars: ${avatarsResponse.status}`);
-    }
-
-    const avatarsData = await avatarsResponse.json();
-    const activeAvatars = avatarsData.data.results.filter((a: any) => a.status === 'ACTIVE');
-
-    if (activeAvatars.length === 0) {
-      throw new Error('No active avatars found');
-    }
-
-    const avatarId = activeAvatars[0].id;
-    console.log(`✅ Using avatar: ${activeAvatars[0].name} (${avatarId})`);
+    const { id: avatarId } = await resolveAvatar({ client: liveAvatar });
 
     console.log('🎫 Step 5: Creating LiveAvatar Session Token with livekit_config');
 
-    // Generate a token specifically for the avatar participant
-    const avatarToken = new AccessToken(
-      CONFIG.LIVEKIT_API_KEY,
-      CONFIG.LIVEKIT_API_SECRET,
-      {
-        identity: 'liveavatar-bot',
-        ttl: '10m',
-      }
-    );
-
-    avatarToken.addGrant({
-      room: roomName,
-      roomJoin: true,
-      canPublish: true,
-      canPublishData: true, // Required for LiveAvatar to publish data messages
-      canSubscribe: true,
+    // Generate a token specifically for the avatar participant (canPublishData etc. - see token.ts)
+    const avatarJwt = await buildAvatarToken({
+      roomName,
+      apiKey: CONFIG.LIVEKIT_API_KEY,
+      apiSecret: CONFIG.LIVEKIT_API_SECRET,
     });
 
-    const avatarJwt = await avatarToken.toJwt();
-
-    const tokenPayload = {
+    const tokenPayload: CreateSessionTokenRequest = {
       mode: 'CUSTOM',
       avatar_id: avatarId,
       livekit_config: {
@@ -174,51 +190,31 @@ async function main() {
 
     console.log('Request payload:', JSON.stringify(tokenPayload, null, 2));
 
-    const tokenResponse = await fetch('https://api.liveavatar.com/v1/sessions/token', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'X-API-KEY': CONFIG.LIVE_AVATAR_API_KEY,
-      },
-      body: JSON.stringify(tokenPayload),
-    });
-
-    console.log(`Response: ${tokenResponse.status} ${tokenResponse.statusText}`);
-    const tokenData = await tokenResponse.json();
+    const tokenData = await liveAvatar.createSessionToken(tokenPayload);
     console.log('Body:', JSON.stringify(tokenData, null, 2));
 
-    if (!tokenResponse.ok) {
-      throw new Error('Failed to create session token');
-    }
-
-    const sessionToken = tokenData.data?.session_token;
-    sessionId = tokenData.data?.session_id;
+    const sessionToken = tokenData.session_token;
+    sessionId = tokenData.session_id;
     console.log(`✅ Session token created (${sessionId})`);
 
     console.log('🚀 Step 6: Starting LiveAvatar Session (THE CRITICAL TEST)');
 
-    const startResponse = await fetch('https://api.liveavatar.com/v1/sessions/start', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${sessionToken}`,
-      },
-      body: JSON.stringify({}),
-    });
+    try {
+      const startData = await liveAvatar.startSession(sessionToken);
+      console.log('Body:', JSON.stringify(startData, null, 2));
 
-    console.log(`Response: ${startResponse.status} ${startResponse.statusText}`);
-    const startData = await startResponse.json();
-    console.log('Body:', JSON.stringify(startData, null, 2));
-
-    if (startResponse.ok) {
       console.log('\n🎉 SUCCESS! The session started!');
       console.log('The avatar should be joining the room now.');
       console.log('\n👀 Check the room to see the avatar!');
       console.log(`Room: ${meetUrl}`);
       console.log('\nPress Enter when you\'re done testing...');
       await waitForEnter();
-    } else {
-      console.log('\n❌ FAILED: 500 ERROR');
+    } catch (error) {
+      if (!(error instanceof LiveAvatarHttpError)) throw error;
+
+      console.log(`Response: ${error.status}`);
+      console.log('Body:', error.body);
+      console.log(`\n❌ FAILED: ${error.status} ERROR`);
       console.log('Even with a verified working LiveKit room, LiveAvatar returns 500.');
       console.log('\nThis proves:');
       console.log('  ✅ LiveKit room exists and works (verified by joining)');
@@ -231,49 +227,7 @@ async function main() {
     console.error('\n💥 Unexpected error:', error.message);
     console.error(error);
   } finally {
-    console.log('\n🧹 Cleanup');
-
-    if (sessionId) {
-      try {
-        console.log(`Stopping LiveAvatar session ${sessionId}...`);
-        const stopResponse = await fetch('https://api.liveavatar.com/v1/sessions/stop', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'X-API-KEY': CONFIG.LIVE_AVATAR_API_KEY,
-          },
-          body: JSON.stringify({
-            session_id: sessionId,
-            reason: 'USER_CLOSED',
-          }),
-        });
-
-        if (stopResponse.ok) {
-          console.log('✅ LiveAvatar session stopped');
-        } else {
-          console.log('⚠️  Failed to stop LiveAvatar session');
-        }
-      } catch (error) {
-        console.log('⚠️  Error stopping LiveAvatar session:', error);
-      }
-    }
-
-    if (roomName) {
-      try {
-        console.log(`Deleting LiveKit room ${roomName}...`);
-        const roomService = new RoomServiceClient(
-          CONFIG.LIVEKIT_URL,
-          CONFIG.LIVEKIT_API_KEY,
-          CONFIG.LIVEKIT_API_SECRET
-        );
-        await roomService.deleteRoom(roomName);
-        console.log('✅ LiveKit room deleted');
-      } catch (error) {
-        console.log('⚠️  Error deleting room:', error);
-      }
-    }
-
-    console.log('✅ Cleanup complete\n');
+    await cleanup();
   }
 }
 
@@ -28,6 +28,13 @@ import {
 import * as openai from '@livekit/agents-plugin-openai';
 import * as deepgram from '@livekit/agents-plugin-deepgram';
 import * as elevenlabs from '@livekit/agents-plugin-elevenlabs';
+import { workerAgentName } from '../../shared/agents.js';
+import {
+  describeJobConfig,
+  elevenLabsTTSOptions,
+  jobConfigFromMetadata,
+  type AgentPersona,
+} from '../../shared/job-config.js';
 import * as silero from '@livekit/agents-plugin-silero';
 import { fileURLToPath } from 'url';
 
@@ -36,12 +43,23 @@ initializeLogger({ pretty: true, level: 'info' });
 
 console.log('🚀 Starting agent worker (simple-agent)');
 
+// Default persona - dispatch metadata can override any of it (shared/job-config.ts)
+const PERSONA: AgentPersona = {
+  instructions: 'You are a helpful assistant in a LiveKit room. Keep your responses brief and friendly.',
+  greeting: 'Hello! I can hear you now. How can I help?',
+  llmModel: 'gpt-4o-mini',
+  ttsModel: 'eleven_turbo_v2',
+};
+
 export default defineAgent({
   prewarm: async (proc: JobProcess) => {
     proc.userData.vad = await silero.VAD.load();
   },
 
   entry: async (ctx: JobContext) => {
+    const config = jobConfigFromMetadata(ctx.job.metadata, PERSONA);
+    console.log(`🎭 ${describeJobConfig(config)}`);
+
     await ctx.connect();
     console.log(`✅ Agent connected to room: ${ctx.room.name}`);
 
@@ -50,17 +68,14 @@ export default defineAgent({
 
     // Create agent
     const assistant = new voice.Agent({
-      instructions: 'You are a helpful assistant in a LiveKit room. Keep your responses brief and friendly.',
+      instructions: config.instructions,
     });
 
     // Create session with direct provider plugins (more reliable than inference gateway)
     const session = new voice.AgentSession({
       stt: new deepgram.STT(),
-      llm: new openai.LLM({ model: 'gpt-4o-mini' }),
-      tts: new elevenlabs.TTS({
-        voiceId: '21m00Tcm4TlvDq8ikWAM',
-        model: 'eleven_turbo_v2'
-      }),
+      llm: new openai.LLM(config.llm),
+      tts: new elevenlabs.TTS(elevenLabsTTSOptions(config.tts)),
       vad: ctx.proc.userData.vad as silero.VAD,
     });
 
@@ -89,9 +104,12 @@ export default defineAgent({
     console.log('✅ Agent session started');
 
     // Say hello
-    setTimeout(() => {
-      session.say('Hello! I can hear you now. How can I help?');
-    }, 1000);
+    const { greeting } = config;
+    if (greeting) {
+      setTimeout(() => {
+        session.say(greeting);
+      }, 1000);
+    }
   },
 });
 
@@ -99,10 +117,11 @@ export default defineAgent({
 // Agent Dispatch Modes:
 // - NO agentName: AUTOMATIC dispatch - agent joins ALL new rooms automatically (best for local dev)
 // - WITH agentName: EXPLICIT dispatch - agent waits for manual dispatch command (use for prod/multi-agent setups)
+// AGENT_DISPATCH=explicit switches to explicit dispatch as 'simple-agent' (shared/agents.ts)
 cli.runApp(
   new WorkerOptions({
     agent: fileURLToPath(import.meta.url),
-    // agentName: 'simple-agent', // Commented out for auto-dispatch - agent will join all new rooms
+    agentName: workerAgentName('voice-basic'),
     numIdleProcesses: 1, // Keep 1 agent process ready
     logLevel: 'info',
   })
@@ -15,6 +15,13 @@ import { fileURLToPath } from 'node:url';
 import { config } from 'dotenv';
 import { resolve } from 'node:path';
 import { z } from 'zod';
+import { workerAgentName } from '../../shared/agents.js';
+import {
+    describeJobConfig,
+    elevenLabsTTSOptions,
+    jobConfigFromMetadata,
+    type AgentPersona,
+} from '../../shared/job-config.js';
 
 // Load environment variables from project root .env file
 config({ path: resolve(process.cwd(), '.env') });
@@ -268,6 +275,39 @@ const sendEmail = llm.tool({
     },
 });
 
+// ============================================================================
+// DEFAULT PERSONA - dispatch metadata can override any of it (shared/job-config.ts)
+// ============================================================================
+
+const PERSONA: AgentPersona = {
+    instructions:
+        'You are a proactive flight booking assistant. Be direct and action-oriented.\n\n' +
+        'IMPORTANT BEHAVIOR:\n' +
+        '- Make reasonable assumptions from context (e.g., "morning" = 9-11 AM)\n' +
+        '- ALWAYS announce when you\'re about to use a tool: "Let me search for flights..."\n' +
+        '- ALWAYS confirm tool results: "Found 3 flights" or "Checked your calendar - you\'re free"\n' +
+        '- Only ask questions when absolutely necessary (missing destination, passenger name, email)\n' +
+        '- Be concise - avoid long explanations\n\n' +
+        'WORKFLOW:\n' +
+        '1. Announce: "Let me search for flights..."\n' +
+        '2. Use searchFlights, checkCalendar, getWeather in parallel\n' +
+        '3. Summarize results briefly: "Found 3 options, you\'re available, weather looks good"\n' +
+        '4. Present best option and ask for confirmation\n' +
+        '5. Book immediately when confirmed\n' +
+        '6. Send email confirmation\n\n' +
+        'Handle failures gracefully but briefly: "Search failed, retrying..."',
+    tools: {
+        searchFlights,
+        checkCalendar,
+        getWeather,
+        bookFlight,
+        sendEmail,
+    },
+    greeting: 'Hi! I can help you book flights. Where would you like to go?',
+    llmModel: 'gpt-4o-mini',
+    ttsModel: 'eleven_turbo_v2',
+};
+
 export default defineAgent({
     // Prewarm runs once when process starts - load heavy models here
     prewarm: async (proc: JobProcess) => {
@@ -280,6 +320,9 @@ export default defineAgent({
     entry: async (ctx: JobContext) => {
         console.log('Agent entry: Starting new job');
 
+        const jobConfig = jobConfigFromMetadata(ctx.job.metadata, PERSONA);
+        console.log(`🎭 ${describeJobConfig(jobConfig)}`);
+
         // Connect to LiveKit room
         await ctx.connect();
         console.log('Connected to room:', ctx.room.name);
@@ -290,39 +333,15 @@ export default defineAgent({
 
         // Create the voice agent with flight booking capabilities
         const agent = new voice.Agent({
-            instructions:
-                'You are a proactive flight booking assistant. Be direct and action-oriented.\n\n' +
-                'IMPORTANT BEHAVIOR:\n' +
-                '- Make reasonable assumptions from context (e.g., "morning" = 9-11 AM)\n' +
-                '- ALWAYS announce when you\'re about to use a tool: "Let me search for flights..."\n' +
-                '- ALWAYS confirm tool results: "Found 3 flights" or "Checked your calendar - you\'re free"\n' +
-                '- Only ask questions when absolutely necessary (missing destination, passenger name, email)\n' +
-                '- Be concise - avoid long explanations\n\n' +
-                'WORKFLOW:\n' +
-                '1. Announce: "Let me search for flights..."\n' +
-                '2. Use searchFlights, checkCalendar, getWeather in parallel\n' +
-                '3. Summarize results briefly: "Found 3 options, you\'re available, weather looks good"\n' +
-                '4. Present best option and ask for confirmation\n' +
-                '5. Book immediately when confirmed\n' +
-                '6. Send email confirmation\n\n' +
-                'Handle failures gracefully but briefly: "Search failed, retrying..."',
-            tools: {
-                searchFlights,
-                checkCalendar,
-                getWeather,
-                bookFlight,
-                sendEmail,
-            },
+            instructions: jobConfig.instructions,
+            tools: jobConfig.tools,
         });
 
         // Create agent session with direct provider plugins (more reliable)
         const session = new voice.AgentSession({
             stt: new deepgram.STT(),
-            llm: new openai.LLM({ model: 'gpt-4o-mini' }),
-            tts: new elevenlabs.TTS({
-                voiceId: '21m00Tcm4TlvDq8ikWAM',
-                model: 'eleven_turbo_v2'
-            }),
+            llm: new openai.LLM(jobConfig.llm),
+            tts: new elevenlabs.TTS(elevenLabsTTSOptions(jobConfig.tts)),
 
             // Use preloaded VAD
             vad: ctx.proc.userData.vad as silero.VAD,
@@ -358,10 +377,12 @@ export default defineAgent({
         console.log('Agent session started');
 
         // Greet the user
-        console.log('\n👋 Greeting user...');
-        await session.generateReply({
-            instructions: 'Greet the user briefly: "Hi! I can help you book flights. Where would you like to go?"',
-        });
+        if (jobConfig.greeting) {
+            console.log('\n👋 Greeting user...');
+            await session.generateReply({
+                instructions: `Greet the user briefly: "${jobConfig.greeting}"`,
+            });
+        }
     },
 });
 
@@ -369,10 +390,11 @@ export default defineAgent({
 // Agent Dispatch Modes:
 // - NO agentName: AUTOMATIC dispatch - agent joins ALL new rooms automatically (best for local dev)
 // - WITH agentName: EXPLICIT dispatch - agent waits for manual dispatch command (use for prod/multi-agent setups)
+// AGENT_DISPATCH=explicit switches to explicit dispatch as 'tool-calling-agent' (shared/agents.ts)
 cli.runApp(
     new WorkerOptions({
         agent: fileURLToPath(import.meta.url),
-        // agentName not set = auto-dispatch enabled - agent will join all new rooms
+        agentName: workerAgentName('tool-calling'),
         port: 3829,
         numIdleProcesses: 1,
     })
@@ -10,12 +10,40 @@
  * This isolates the problem to LiveAvatar's livekit_config implementation.
  *
  * Usage:
- *   npx tsx working-voice-agent-demo.ts
+ *   npm run example:create-room                       # interactive - waits for you to join
+ *   npm run example:create-room -- --no-wait --json --keep --agent custom-avatar --avatar "Mock*"
+ *   npm run example:create-room -- --agent tool-calling --tools searchFlights,getWeather --greeting "Where to?"
+ *
+ * The agent's worker has to run with AGENT_DISPATCH=explicit to receive the
+ * dispatch (shared/agents.ts) - otherwise it auto-joins every room instead.
+ *
+ * Flags:
+ *   --room <name>        Room name (default agent-test-<timestamp>)
+ *   --agent <agent>      voice-basic (default), tool-calling, custom-avatar, slot-machine - or any agentName
+ *   --metadata <string>  Dispatch metadata, handed to the job as ctx.job.metadata
+ *   --ttl <duration>     Participant token TTL, e.g. 90s, 10m, 2h (default 10m)
+ *   --no-wait            Don't wait for Enter - create, dispatch, clean up, exit
+ *   --json               Print the result as JSON on stdout (logs go to stderr)
+ *   --keep               Don't delete the room at the end, e.g. to hand it to other tooling
+ *
+ * Persona flags - merged into the metadata (shared/job-config.ts), which
+ * is validated against the job config schema before a repo agent gets it:
+ *   --avatar <query>       Avatar ID, name or pattern
+ *   --instructions <text>  System prompt
+ *   --greeting <text>      What the agent opens with ("" for nothing)
+ *   --tools <a,b>          Subset of the agent's tools ("" for none)
+ *   --llm-model <model>    OpenAI model
+ *   --voice <id>           ElevenLabs voice ID
+ *   --tts-model <model>    ElevenLabs model
  */
 
 import 'dotenv/config';
 import { RoomServiceClient, AccessToken, AgentDispatchClient } from 'livekit-server-sdk';
 import { createInterface } from 'readline';
+import { parseArgs } from 'util';
+import { AGENTS, findAgent, type RepoAgent } from '../../shared/agents.js';
+import { JobConfigError, parseJobMetadata, type JobMetadata } from '../../shared/job-config.js';
+import { cleanupOnExit } from '../../shared/shutdown.js';
 
 // =============================================================================
 // CONFIGURATION
@@ -26,16 +54,160 @@ const CONFIG = {
   LIVEKIT_API_SECRET: process.env.LIVEKIT_API_SECRET!,
 };
 
+const DEFAULT_AGENT = 'voice-basic';
+const DEFAULT_TOKEN_TTL = '10m';
+const PARTICIPANT_IDENTITY = 'test-user';
+
+interface Options {
+  roomName: string;
+  agentName: string;
+  agent: RepoAgent | undefined;   // Registry entry, unless --agent named something outside this repo
+  metadata: string;
+  tokenTtl: string;
+  wait: boolean;
+  json: boolean;
+  keep: boolean;
+}
+
+/** What --json prints */
+interface Result {
+  room: { name: string; sid: string } | null;
+  livekitUrl: string;
+  tokens: { participant: { identity: string; token: string; ttl: string } } | null;
+  meetUrl: string | null;
+  dispatch: { id: string; agentName: string; metadata: string } | null;
+  participants: string[] | null;  // Identities in the room after dispatch (interactive mode only)
+  roomDeleted: boolean;
+  error: string | null;
+}
+
 // =============================================================================
 // HELPERS
 // =============================================================================
 
+function parseOptions(): Options {
+  let values;
+  try {
+    ({ values } = parseArgs({
+      options: {
+        room: { type: 'string' },
+        agent: { type: 'string' },
+        metadata: { type: 'string' },
+        ttl: { type: 'string' },
+        avatar: { type: 'string' },
+        instructions: { type: 'string' },
+        greeting: { type: 'string' },
+        tools: { type: 'string' },
+        'llm-model': { type: 'string' },
+        voice: { type: 'string' },
+        'tts-model': { type: 'string' },
+        'no-wait': { type: 'boolean' },
+        json: { type: 'boolean' },
+        keep: { type: 'boolean' },
+      },
+    }));
+  } catch (error) {
+    console.error(`❌ ${(error as Error).message}`);
+    console.error('Flags: --room --agent --metadata --ttl --no-wait --json --keep, persona: --avatar --instructions');
+    console.error('       --greeting --tools --llm-model --voice --tts-model (see the top of this file)');
+    process.exit(1);
+  }
+
+  const tokenTtl = values.ttl ?? DEFAULT_TOKEN_TTL;
+  // AccessToken takes a bare number as an absolute expiry - only accept durations
+  if (!/^\d+(s|m|h|d)$/.test(tokenTtl)) {
+    console.error(`❌ Invalid --ttl "${tokenTtl}" (expected e.g. 90s, 10m, 2h)`);
+    process.exit(1);
+  }
+
+  const agentArg = values.agent || DEFAULT_AGENT;
+  const agent = findAgent(agentArg);
+
+  const persona: JobMetadata = onlySet({
+    avatar: values.avatar,
+    instructions: values.instructions,
+    greeting: values.greeting,
+    tools: values.tools?.split(',').map((tool) => tool.trim()).filter(Boolean),
+    llm: values['llm-model'] ? { model: values['llm-model'] } : undefined,
+    tts: values.voice || values['tts-model'] ? onlySet({ voiceId: values.voice, model: values['tts-model'] }) : undefined,
+  });
+  const metadata = buildMetadata(values.metadata, persona);
+
+  // Our agents fail the job on metadata they can't use - catch that before dispatching
+  if (agent) {
+    try {
+      parseJobMetadata(metadata);
+    } catch (error) {
+      if (!(error instanceof JobConfigError)) throw error;
+      console.error(`❌ ${error.message}`);
+      process.exit(1);
+    }
+  }
+
+  return {
+    roomName: values.room || `agent-test-${Date.now()}`,
+    agentName: agent?.agentName ?? agentArg,
+    agent,
+    metadata,
+    tokenTtl,
+    wait: !values['no-wait'],
+    json: values.json ?? false,
+    keep: values.keep ?? false,
+  };
+}
+
+/** --metadata as given, or with the persona flags merged in (the metadata must then be a JSON object) */
+function buildMetadata(raw: string | undefined, persona: JobMetadata): string {
+  if (Object.keys(persona).length === 0) return raw ?? '';
+
+  let metadata: unknown = {};
+  try {
+    if (raw) metadata = JSON.parse(raw);
+  } catch {
+    // Falls through to the object check
+    metadata = null;
+  }
+  if (typeof metadata !== 'object' || metadata === null || Array.isArray(metadata)) {
+    console.error('❌ --metadata must be a JSON object to combine it with persona flags');
+    process.exit(1);
+  }
+
+  const { llm, tts } = metadata as JobMetadata;
+  return JSON.stringify({
+    ...metadata,
+    ...persona,
+    llm: persona.llm ? { ...llm, ...persona.llm } : llm,
+    tts: persona.tts ? { ...tts, ...persona.tts } : tts,
+  });
+}
+
+// Flags that weren't given mustn't overwrite what --metadata says
+function onlySet<T extends object>(values: T): T {
+  return Object.fromEntries(Object.entries(values).filter(([, value]) => value !== undefined)) as T;
+}
+
+const OPTIONS = parseOptions();
+
+// Where to point people when the agent doesn't show up
+const WORKER_HINT = OPTIONS.agent
+  ? `AGENT_DISPATCH=explicit npm run ${OPTIONS.agent.npmScript}`
+  : `a worker registered as agentName '${OPTIONS.agentName}' (repo agents: ${Object.keys(AGENTS).join(', ')})`;
+
+// With --json, stdout carries only the result
+const log = (...args: unknown[]) => (OPTIONS.json ? console.error : console.log)(...args);
+
 function waitForEnter(): Promise<void> {
   const rl = createInterface({
     input: process.stdin,
     output: process.stdout,
   });
 
+  // readline swallows Ctrl+C - pass it on so the cleanup handler runs
+  rl.on('SIGINT', () => {
+    rl.close();
+    process.kill(process.pid, 'SIGINT');
+  });
+
   return new Promise((resolve) => {
     rl.question('', () => {
       rl.close();
@@ -64,16 +236,53 @@ function validateConfig() {
 // =============================================================================
 
 async function main() {
-  console.log('\n=== Working Voice Agent Demo ===\n');
-  console.log('This proves that LiveKit agents work with your setup.');
-  console.log('Make sure the agent worker is running: npm run worker\n');
+  log('\n=== Working Voice Agent Demo ===\n');
+  log('This proves that LiveKit agents work with your setup.');
+  log(`Make sure the agent worker is running: ${WORKER_HINT}\n`);
 
   validateConfig();
 
-  let roomName = '';
+  const { roomName } = OPTIONS;
+  let roomCreated = false;
+
+  const result: Result = {
+    room: null,
+    livekitUrl: CONFIG.LIVEKIT_URL,
+    tokens: null,
+    meetUrl: null,
+    dispatch: null,
+    participants: null,
+    roomDeleted: false,
+    error: null,
+  };
+
+  // Runs from finally, or on Ctrl+C / SIGTERM - the room outlives this script otherwise
+  const cleanup = cleanupOnExit(async () => {
+    log('\n🧹 Cleanup');
+
+    if (roomCreated && OPTIONS.keep) {
+      log(`📌 Keeping room ${roomName} (--keep) - LiveKit deletes it once it's been empty for 10 minutes`);
+    } else if (roomCreated) {
+      try {
+        log(`Deleting LiveKit room ${roomName}...`);
+        const roomService = new RoomServiceClient(
+          CONFIG.LIVEKIT_URL,
+          CONFIG.LIVEKIT_API_KEY,
+          CONFIG.LIVEKIT_API_SECRET
+        );
+        await roomService.deleteRoom(roomName);
+        result.roomDeleted = true;
+        log('✅ Room deleted');
+      } catch (error) {
+        log('⚠️  Error deleting room:', error);
+      }
+    }
+
+    log('✅ Cleanup complete\n');
+  });
 
   try {
-    console.log('📦 Step 1: Creating LiveKit Room');
+    log('📦 Step 1: Creating LiveKit Room');
 
     const roomService = new RoomServiceClient(
       CONFIG.LIVEKIT_URL,
@@ -81,24 +290,24 @@ async function main() {
       CONFIG.LIVEKIT_API_SECRET
     );
 
-    roomName = `agent-test-${Date.now()}`;
-
     const room = await roomService.createRoom({
       name: roomName,
       emptyTimeout: 10 * 60, // 10 minutes
       maxParticipants: 20,
     });
+    roomCreated = true;
+    result.room = { name: room.name, sid: room.sid };
 
-    console.log(`✅ Room created: ${room.name} (${room.sid})`);
+    log(`✅ Room created: ${room.name} (${room.sid})`);
 
-    console.log('🎫 Step 2: Generating Participant Token');
+    log('🎫 Step 2: Generating Participant Token');
 
     const token = new AccessToken(
       CONFIG.LIVEKIT_API_KEY,
       CONFIG.LIVEKIT_API_SECRET,
       {
-        identity: 'test-user',
-        ttl: '10m',
+        identity: PARTICIPANT_IDENTITY,
+        ttl: OPTIONS.tokenTtl,
       }
     );
 
@@ -110,18 +319,24 @@ async function main() {
     });
 
     const jwt = await token.toJwt();
+    result.tokens = { participant: { identity: PARTICIPANT_IDENTITY, token: jwt, ttl: OPTIONS.tokenTtl } };
 
-    console.log('✅ Token generated');
+    log('✅ Token generated');
 
-    console.log('🔍 Step 3: Join the Room');
+    log('🔍 Step 3: Join the Room');
     const meetUrl = `https://meet.livekit.io/custom?liveKitUrl=${CONFIG.LIVEKIT_URL}&token=${jwt}`;
-    console.log(`Join: ${meetUrl}`);
-    console.log('Press Enter once you\'ve joined...');
+    result.meetUrl = meetUrl;
+    log(`Join: ${meetUrl}`);
 
-    await waitForEnter();
-    console.log('✅ Room verified\n');
+    if (OPTIONS.wait) {
+      log('Press Enter once you\'ve joined...');
+      await waitForEnter();
+      log('✅ Room verified\n');
+    } else {
+      log('⏭️  --no-wait: not waiting for you to join\n');
+    }
 
-    console.log('🤖 Step 4: Dispatching Voice Agent');
+    log(`🤖 Step 4: Dispatching ${OPTIONS.agentName}${OPTIONS.metadata ? ` with metadata ${OPTIONS.metadata}` : ''}`);
 
     const agentDispatchClient = new AgentDispatchClient(
       CONFIG.LIVEKIT_URL,
@@ -132,66 +347,61 @@ async function main() {
     try {
       const dispatch = await agentDispatchClient.createDispatch(
         roomName,
-        'simple-agent',
-        {}
+        OPTIONS.agentName,
+        { metadata: OPTIONS.metadata }
       );
-
-      console.log('✅ Agent dispatched');
-      console.log('Dispatch:', JSON.stringify(dispatch, null, 2));
-
-      console.log('Waiting for agent to join...');
-      await new Promise(resolve => setTimeout(resolve, 3000));
-
-      const participants = await roomService.listParticipants(roomName);
-      console.log(`Found ${participants.length} participant(s):`);
-      participants.forEach((p: any) => {
-        console.log(`  - ${p.identity} (${p.sid})`);
-      });
-
-      if (participants.length > 1) {
-        console.log('\n✅ Agent joined! Try speaking to test voice interaction.');
-      } else {
-        console.log('\n⚠️  Agent hasn\'t joined. Check worker is running: npm run worker');
+      result.dispatch = { id: dispatch.id, agentName: dispatch.agentName, metadata: dispatch.metadata };
+
+      log('✅ Agent dispatched');
+      log('Dispatch:', JSON.stringify(dispatch, null, 2));
+
+      if (OPTIONS.wait) {
+        log('Waiting for agent to join...');
+        await new Promise(resolve => setTimeout(resolve, 3000));
+
+        const participants = await roomService.listParticipants(roomName);
+        result.participants = participants.map((p) => p.identity);
+        log(`Found ${participants.length} participant(s):`);
+        participants.forEach((p) => {
+          log(`  - ${p.identity} (${p.sid})`);
+        });
+
+        if (participants.length > 1) {
+          log('\n✅ Agent joined! Try speaking to test voice interaction.');
+        } else {
+          log(`\n⚠️  Agent hasn't joined. Check worker is running: ${WORKER_HINT}`);
+        }
+
+        log('\nPress Enter when done...');
+        await waitForEnter();
       }
 
-      console.log('\nPress Enter when done...');
-      await waitForEnter();
-
     } catch (error: any) {
-      console.log(`⚠️  Could not dispatch agent: ${error.message}`);
-      console.log('Make sure worker is running: npm run worker');
+      result.error = `Could not dispatch agent: ${error.message}`;
+      process.exitCode = 1;
+      log(`⚠️  Could not dispatch agent: ${error.message}`);
+      log(`Make sure worker is running: ${WORKER_HINT}`);
     }
 
-    console.log('\n✅ Test Complete');
-    console.log('What this proved:');
-    console.log('  ✅ LiveKit room creation works');
-    console.log('  ✅ Token generation works');
-    console.log('  ✅ Room is accessible');
-    console.log('  ✅ Custom agents work with your setup');
-    console.log('\nNow run the LiveAvatar demo: npm run demo\n');
+    log('\n✅ Test Complete');
+    log('What this proved:');
+    log('  ✅ LiveKit room creation works');
+    log('  ✅ Token generation works');
+    log('  ✅ Room is accessible');
+    log('  ✅ Custom agents work with your setup');
+    log('\nNow run the LiveAvatar demo: npm run demo\n');
 
   } catch (error: any) {
+    result.error = error.message;
+    process.exitCode = 1;
     console.error('\n💥 Unexpected error:', error.message);
     console.error(error);
   } finally {
-    console.log('\n🧹 Cleanup');
-
-    if (roomName) {
-      try {
-        console.log(`Deleting LiveKit room ${roomName}...`);
-        const roomService = new RoomServiceClient(
-          CONFIG.LIVEKIT_URL,
-          CONFIG.LIVEKIT_API_KEY,
-          CONFIG.LIVEKIT_API_SECRET
-        );
-        await roomService.deleteRoom(roomName);
-        console.log('✅ Room deleted');
-      } catch (error) {
-        console.log('⚠️  Error deleting room:', error);
-      }
-    }
+    await cleanup();
+  }
 
-    console.log('✅ Cleanup complete\n');
+  if (OPTIONS.json) {
+    console.log(JSON.stringify(result, null, 2));
   }
 }
 